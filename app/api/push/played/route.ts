@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server"
+import { isValidDateString } from "@/lib/puzzle-dates"
+import { getPush } from "@/lib/push"
+
+// POST { endpoint, date } -> { lastPlayedDate }
+// Lets the "haven't played today" reminder skip anyone who already has
+export async function POST(request: Request) {
+  let body: { endpoint?: unknown; date?: unknown } | null
+  try {
+    body = await request.json()
+  } catch {
+    body = null
+  }
+  if (typeof body !== "object" || body === null) {
+    return NextResponse.json(
+      { error: "Invalid request", message: "Body must be JSON" },
+      { status: 400 }
+    )
+  }
+
+  if (typeof body.endpoint !== "string" || typeof body.date !== "string" || !isValidDateString(body.date)) {
+    return NextResponse.json(
+      { error: "Invalid request", message: "Send the subscription endpoint and a YYYY-MM-DD date" },
+      { status: 400 }
+    )
+  }
+
+  const { store } = getPush()
+  if (!store) {
+    return NextResponse.json(
+      { error: "Push unavailable", message: "Notifications aren't set up on this server" },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const subscription = await store.get(body.endpoint)
+    if (!subscription) {
+      return NextResponse.json(
+        { error: "Subscription not found", message: "This device isn't subscribed to notifications" },
+        { status: 404 }
+      )
+    }
+
+    await store.save({ ...subscription, lastPlayedDate: body.date })
+    return NextResponse.json({ lastPlayedDate: body.date })
+  } catch (error) {
+    console.error("Error recording push play date:", error)
+    return NextResponse.json(
+      { error: "Push unavailable", message: "Could not update the subscription" },
+      { status: 503 }
+    )
+  }
+}
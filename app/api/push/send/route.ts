@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server"
+import { canScheduleReminders, getPush, runPushJob } from "@/lib/push"
+
+// GET -> { date, sent, removed, failed }
+// Run on a schedule (see vercel.json). Safe to call often: each subscriber gets
+// each kind of notification at most once per puzzle date.
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET
+  // Without a secret anyone could push to every subscriber, so only development runs open
+  if (!secret && process.env.NODE_ENV === "production") {
+    return NextResponse.json(
+      { error: "Not configured", message: "Set CRON_SECRET to run the push job" },
+      { status: 503 }
+    )
+  }
+  if (secret && request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { error: "Unauthorized", message: "A valid cron secret is required" },
+      { status: 401 }
+    )
+  }
+
+  const { store, sender } = getPush()
+  if (!store) {
+    return NextResponse.json(
+      { error: "Push unavailable", message: "Notifications aren't set up on this server" },
+      { status: 503 }
+    )
+  }
+
+  try {
+    return NextResponse.json(await runPushJob(store, sender, { reminders: canScheduleReminders() }))
+  } catch (error) {
+    console.error("Error sending push notifications:", error)
+    return NextResponse.json(
+      { error: "Push job failed", message: "Could not send notifications" },
+      { status: 500 }
+    )
+  }
+}
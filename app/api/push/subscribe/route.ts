@@ -0,0 +1,145 @@
+import { NextResponse } from "next/server"
+import { getTodayET } from "@/lib/puzzle-dates"
+import { canScheduleReminders, getPush, getVapidPublicKey, type StoredSubscription } from "@/lib/push"
+
+interface SubscribeRequest {
+  subscription?: { endpoint?: unknown; keys?: { p256dh?: unknown; auth?: unknown } }
+  newPuzzle?: unknown
+  reminderTime?: unknown
+  timeZone?: unknown
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+
+function isTimeZone(value: unknown): value is string {
+  if (typeof value !== "string") return false
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value })
+    return true
+  } catch {
+    return false
+  }
+}
+
+async function readJson<T>(request: Request): Promise<T | null> {
+  try {
+    return await request.json()
+  } catch {
+    return null
+  }
+}
+
+// GET -> { publicKey, reminders } (publicKey is null when push isn't configured on this
+// server; reminders is false when the job doesn't run often enough for a chosen time)
+export async function GET() {
+  return NextResponse.json({ publicKey: getVapidPublicKey(), reminders: canScheduleReminders() })
+}
+
+// POST { subscription, newPuzzle, reminderTime, timeZone } -> the saved preferences
+export async function POST(request: Request) {
+  const body = await readJson<SubscribeRequest>(request)
+  if (typeof body !== "object" || body === null) {
+    return NextResponse.json(
+      { error: "Invalid request", message: "Body must be JSON" },
+      { status: 400 }
+    )
+  }
+
+  const { endpoint, keys } = body.subscription ?? {}
+  if (
+    typeof endpoint !== "string" || !endpoint.startsWith("https://")
+    || typeof keys?.p256dh !== "string" || typeof keys?.auth !== "string"
+  ) {
+    return NextResponse.json(
+      { error: "Invalid subscription", message: "Send the browser's PushSubscription as JSON" },
+      { status: 400 }
+    )
+  }
+
+  const reminderTime = body.reminderTime ?? null
+  if (typeof body.newPuzzle !== "boolean" || (reminderTime !== null && !(typeof reminderTime === "string" && TIME_PATTERN.test(reminderTime)))) {
+    return NextResponse.json(
+      { error: "Invalid preferences", message: "newPuzzle must be true or false and reminderTime HH:MM or null" },
+      { status: 400 }
+    )
+  }
+  if (reminderTime !== null && !canScheduleReminders()) {
+    return NextResponse.json(
+      { error: "Reminders unavailable", message: "Reminders at a chosen time aren't available on this server" },
+      { status: 400 }
+    )
+  }
+  if (!isTimeZone(body.timeZone)) {
+    return NextResponse.json(
+      { error: "Invalid preferences", message: "timeZone must be an IANA time zone like America/New_York" },
+      { status: 400 }
+    )
+  }
+
+  const { store } = getPush()
+  if (!store) {
+    return NextResponse.json(
+      { error: "Push unavailable", message: "Notifications aren't set up on this server" },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const existing = await store.get(endpoint)
+    const subscription: StoredSubscription = {
+      endpoint,
+      keys: { p256dh: keys.p256dh, auth: keys.auth },
+      newPuzzle: body.newPuzzle,
+      reminderTime,
+      timeZone: body.timeZone,
+      lastPlayedDate: existing?.lastPlayedDate ?? null,
+      // Today's puzzle is already out - the first notification is for tomorrow's
+      lastNotifiedDate: existing?.lastNotifiedDate ?? getTodayET(),
+      lastRemindedDate: existing?.lastRemindedDate ?? null,
+      createdAt: existing?.createdAt ?? new Date().toISOString(),
+    }
+    await store.save(subscription)
+
+    return NextResponse.json({
+      newPuzzle: subscription.newPuzzle,
+      reminderTime: subscription.reminderTime,
+      timeZone: subscription.timeZone,
+    })
+  } catch (error) {
+    console.error("Error saving push subscription:", error)
+    return NextResponse.json(
+      { error: "Push unavailable", message: "Could not save the subscription" },
+      { status: 503 }
+    )
+  }
+}
+
+// DELETE { endpoint } -> { removed: true }
+export async function DELETE(request: Request) {
+  const body = await readJson<{ endpoint?: unknown }>(request)
+  if (typeof body?.endpoint !== "string") {
+    return NextResponse.json(
+      { error: "Invalid request", message: "Send the subscription endpoint to remove" },
+      { status: 400 }
+    )
+  }
+
+  const { store } = getPush()
+  if (!store) {
+    return NextResponse.json(
+      { error: "Push unavailable", message: "Notifications aren't set up on this server" },
+      { status: 503 }
+    )
+  }
+
+  try {
+    await store.remove(body.endpoint)
+    return NextResponse.json({ removed: true })
+  } catch (error) {
+    console.error("Error removing push subscription:", error)
+    return NextResponse.json(
+      { error: "Push unavailable", message: "Could not remove the subscription" },
+      { status: 503 }
+    )
+  }
+}
@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server"
+import { isPublishedDate, resolvePuzzleDate } from "@/lib/puzzle-dates"
+import { getPuzzle } from "@/lib/puzzle"
+import { checkGroup } from "@/lib/puzzle/check"
+
+interface CheckRequest {
+  date?: string
+  id?: number
+  words?: string[]
+  reveal?: boolean // Opt in to receiving the full answer
+}
+
+// POST { date | id, words: [4 words] } -> { result, category? }
+// POST { date | id, reveal: true } -> { categories }
+export async function POST(request: Request) {
+  let body: CheckRequest | null
+  try {
+    body = await request.json()
+  } catch {
+    body = null
+  }
+  if (typeof body !== "object" || body === null) {
+    return NextResponse.json(
+      { error: "Invalid request", message: "Body must be JSON" },
+      { status: 400 }
+    )
+  }
+
+  const resolved = resolvePuzzleDate(body.date, body.id)
+  if ("error" in resolved) {
+    return NextResponse.json(
+      { error: "Invalid puzzle request", message: resolved.error },
+      { status: 400 }
+    )
+  }
+
+  // Unpublished answers stay secret, whatever the sources know
+  if (!isPublishedDate(resolved.date)) {
+    return NextResponse.json(
+      { error: "Puzzle not found", message: `There is no puzzle for ${resolved.date}` },
+      { status: 404 }
+    )
+  }
+
+  const puzzle = await getPuzzle(resolved.date)
+  if (!puzzle) {
+    return NextResponse.json(
+      { error: "Puzzle not found", message: `Could not find the puzzle for ${resolved.date}` },
+      { status: 404 }
+    )
+  }
+
+  if (!puzzle.categories || puzzle.categories.length !== 4) {
+    return NextResponse.json(
+      { error: "No answer available", message: "The answer for this puzzle isn't known" },
+      { status: 404 }
+    )
+  }
+
+  if (body.reveal) {
+    return NextResponse.json({ categories: puzzle.categories })
+  }
+
+  const words = Array.isArray(body.words)
+    ? body.words.map(word => String(word).trim().toUpperCase())
+    : []
+  if (words.length !== 4 || new Set(words).size !== 4 || !words.every(word => puzzle.words.includes(word))) {
+    return NextResponse.json(
+      { error: "Invalid guess", message: "Send exactly four different words from this puzzle" },
+      { status: 400 }
+    )
+  }
+
+  return NextResponse.json(checkGroup(puzzle.categories, words))
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server"
+import { isPublishedDate, resolvePuzzleDate } from "@/lib/puzzle-dates"
+import { getPuzzle } from "@/lib/puzzle"
+import { getHint } from "@/lib/puzzle/hints"
+import { MAX_HINT_TIER } from "@/lib/hints"
+
+// GET ?date=YYYY-MM-DD (or ?id=N) &level=0-3 &tier=1-4 -> one hint for that category
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url)
+  const resolved = resolvePuzzleDate(searchParams.get("date"), searchParams.get("id"))
+
+  if ("error" in resolved) {
+    return NextResponse.json(
+      { error: "Invalid puzzle request", message: resolved.error },
+      { status: 400 }
+    )
+  }
+
+  const level = Number(searchParams.get("level") ?? NaN)
+  const tier = Number(searchParams.get("tier") ?? NaN)
+
+  if (!Number.isInteger(level) || level < 0 || level > 3 || !Number.isInteger(tier) || tier < 1 || tier > MAX_HINT_TIER) {
+    return NextResponse.json(
+      { error: "Invalid hint request", message: `Level must be 0-3 and tier 1-${MAX_HINT_TIER}` },
+      { status: 400 }
+    )
+  }
+
+  // Unpublished answers stay secret, whatever the sources know
+  if (!isPublishedDate(resolved.date)) {
+    return NextResponse.json(
+      { error: "Puzzle not found", message: `There is no puzzle for ${resolved.date}` },
+      { status: 404 }
+    )
+  }
+
+  const puzzle = await getPuzzle(resolved.date)
+  const category = puzzle?.categories?.find(c => c.level === level)
+
+  if (!category) {
+    return NextResponse.json(
+      { error: "No hints available", message: `No hints are available for ${resolved.date}` },
+      { status: 404 }
+    )
+  }
+
+  return NextResponse.json(getHint(category, tier))
+}
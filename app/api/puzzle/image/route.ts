@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server"
+import { isPublishedDate, resolvePuzzleDate } from "@/lib/puzzle-dates"
+import { getPuzzle } from "@/lib/puzzle"
+
+// GET ?date=YYYY-MM-DD (or ?id=N) &word=ALT -> that picture tile's image, same-origin,
+// so the board image export can draw it on a canvas. Only the puzzle's own images
+// are served - this isn't an open proxy.
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url)
+  const resolved = resolvePuzzleDate(searchParams.get("date"), searchParams.get("id"))
+
+  if ("error" in resolved) {
+    return NextResponse.json(
+      { error: "Invalid puzzle request", message: resolved.error },
+      { status: 400 }
+    )
+  }
+
+  // Unpublished puzzles stay secret, down to which words are pictures
+  if (!isPublishedDate(resolved.date)) {
+    return NextResponse.json(
+      { error: "Puzzle not found", message: `There is no puzzle for ${resolved.date}` },
+      { status: 404 }
+    )
+  }
+
+  const word = searchParams.get("word")?.toUpperCase() ?? ""
+  const puzzle = await getPuzzle(resolved.date)
+  const url = puzzle?.imageMap?.[word]
+
+  if (!url) {
+    return NextResponse.json(
+      { error: "Image not found", message: `No image for "${word}" on ${resolved.date}` },
+      { status: 404 }
+    )
+  }
+
+  try {
+    const response = await fetch(url, { next: { revalidate: 86400 } })
+    const contentType = response.headers.get("content-type") ?? ""
+    if (!response.ok || !contentType.startsWith("image/")) {
+      throw new Error(`Image request failed: ${response.status}`)
+    }
+
+    return new Response(response.body, {
+      headers: {
+        "Content-Type": contentType,
+        "Cache-Control": "public, max-age=86400",
+      },
+    })
+  } catch {
+    return NextResponse.json(
+      { error: "Image unavailable", message: "Could not fetch the image right now" },
+      { status: 503 }
+    )
+  }
+}
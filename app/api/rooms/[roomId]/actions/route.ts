@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server"
+import { isRoomAction } from "@/lib/rooms/actions"
+import { applyActions, getRoom, isInRoom, RoomsUnavailableError } from "@/lib/rooms/store"
+
+interface ActionsRequest {
+  participant?: unknown
+  actions?: unknown
+}
+
+// More than a burst of taps could queue between two sends
+const MAX_ACTIONS = 100
+
+// POST { participant, actions: RoomAction[] } -> { version }
+// Only participants with an open event stream to the room may change it.
+export async function POST(request: Request, { params }: { params: Promise<{ roomId: string }> }) {
+  const { roomId } = await params
+  let body: ActionsRequest | null
+  try {
+    body = await request.json()
+  } catch {
+    body = null
+  }
+  if (typeof body !== "object" || body === null) {
+    return NextResponse.json(
+      { error: "Invalid request", message: "Body must be JSON" },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const room = await getRoom(roomId)
+    if (!room) {
+      return NextResponse.json(
+        { error: "Room not found", message: "This room has ended or the code is wrong" },
+        { status: 404 }
+      )
+    }
+
+    const actions = Array.isArray(body.actions) ? body.actions : []
+    if (
+      typeof body.participant !== "string" || actions.length === 0 || actions.length > MAX_ACTIONS
+      || !actions.every(a => isRoomAction(a, room.state))
+    ) {
+      return NextResponse.json(
+        { error: "Invalid actions", message: "Send your participant id and a list of valid actions" },
+        { status: 400 }
+      )
+    }
+
+    if (!(await isInRoom(roomId, body.participant))) {
+      return NextResponse.json(
+        { error: "Not in room", message: "Join the room before changing the board" },
+        { status: 403 }
+      )
+    }
+
+    const snapshot = await applyActions(roomId, body.participant, actions)
+    return NextResponse.json({ version: snapshot?.state.version ?? room.state.version })
+  } catch (error) {
+    if (error instanceof RoomsUnavailableError) {
+      return NextResponse.json(
+        { error: "Rooms unavailable", message: "Solving together isn't set up on this server" },
+        { status: 503 }
+      )
+    }
+    console.error(`Error updating room ${roomId}:`, error)
+    return NextResponse.json(
+      { error: "Room not updated", message: "Could not save that change. Try again." },
+      { status: 500 }
+    )
+  }
+}
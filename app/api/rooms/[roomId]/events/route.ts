@@ -0,0 +1,101 @@
+import { randomUUID } from "crypto"
+import { NextResponse } from "next/server"
+import { joinRoom, leaveRoom, touchConnection, watchRoom } from "@/lib/rooms/store"
+import type { RoomSnapshot } from "@/lib/rooms/types"
+
+// Keeps proxies from closing an idle stream, and keeps this connection counted as present
+const HEARTBEAT_MS = 25_000
+const MAX_PARTICIPANT_ID_LENGTH = 64
+
+// GET ?participant=<id>&name=<display name> -> text/event-stream of RoomSnapshot
+// The first event is the current room, so late joiners start in sync.
+export async function GET(request: Request, { params }: { params: Promise<{ roomId: string }> }) {
+  const { roomId } = await params
+  const { searchParams } = new URL(request.url)
+  const participantId = searchParams.get("participant")
+  const name = (searchParams.get("name") || "").trim().slice(0, 24) || "Guest"
+
+  if (!participantId || participantId.length > MAX_PARTICIPANT_ID_LENGTH) {
+    return NextResponse.json(
+      { error: "Invalid request", message: "participant is required" },
+      { status: 400 }
+    )
+  }
+
+  const encoder = new TextEncoder()
+  const connectionId = randomUUID()
+  // Set once the stream is closed or cancelled; nothing may be enqueued after that
+  let closed = false
+  let cleanup = () => {}
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const write = (chunk: string) => {
+        if (closed) return
+        try {
+          controller.enqueue(encoder.encode(chunk))
+        } catch {
+          // The client went away between the check and the write
+          closed = true
+        }
+      }
+      const close = () => {
+        if (closed) return
+        closed = true
+        try {
+          controller.close()
+        } catch {
+          // Already closed by the runtime
+        }
+      }
+
+      let joined: RoomSnapshot | null = null
+      try {
+        joined = await joinRoom(roomId, { id: participantId, name }, connectionId)
+      } catch (error) {
+        console.error(`Error joining room ${roomId}:`, error)
+      }
+      if (!joined || closed) {
+        write(`event: missing\ndata: {}\n\n`)
+        close()
+        return
+      }
+
+      const unwatch = watchRoom(roomId, snapshot => write(`data: ${JSON.stringify(snapshot)}\n\n`))
+      const heartbeat = setInterval(() => {
+        write(": ping\n\n")
+        touchConnection(roomId, participantId, connectionId)
+          .catch(error => console.error(`Error refreshing presence in room ${roomId}:`, error))
+      }, HEARTBEAT_MS)
+
+      cleanup = () => {
+        cleanup = () => {}
+        clearInterval(heartbeat)
+        unwatch()
+        leaveRoom(roomId, participantId, connectionId)
+          .catch(error => console.error(`Error leaving room ${roomId}:`, error))
+      }
+      if (request.signal.aborted) {
+        cleanup()
+        close()
+        return
+      }
+      request.signal.addEventListener("abort", () => {
+        cleanup()
+        close()
+      })
+    },
+    cancel() {
+      closed = true
+      cleanup()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  })
+}
@@ -0,0 +1,96 @@
+import { NextResponse } from "next/server"
+import { isCategoryColor, type CategoryColor } from "@/lib/categories"
+import { createTiles } from "@/lib/board"
+import { getPuzzle } from "@/lib/puzzle"
+import { calculatePuzzleNumber, isPublishedDate, isValidDateString } from "@/lib/puzzle-dates"
+import { createRoom, RoomsUnavailableError } from "@/lib/rooms/store"
+
+interface CreateRoomRequest {
+  words?: unknown
+  puzzleDate?: unknown
+  order?: unknown
+  wordColors?: unknown
+  oneAwayWords?: unknown
+}
+
+// Longer than any real tile; keeps a room's state small
+const MAX_WORD_LENGTH = 40
+
+// Keep only entries for words on this board with a real color
+function toColorRecord(value: unknown, words: string[]): Record<string, CategoryColor> {
+  const record: Record<string, CategoryColor> = {}
+  if (typeof value !== "object" || value === null) return record
+  for (const [word, color] of Object.entries(value)) {
+    if (words.includes(word) && isCategoryColor(color)) record[word] = color
+  }
+  return record
+}
+
+// POST { words, puzzleDate?, order?, wordColors?, oneAwayWords? } -> RoomSnapshot
+// Picture URLs come from the server's own copy of a dated puzzle, never from the request.
+export async function POST(request: Request) {
+  let body: CreateRoomRequest | null
+  try {
+    body = await request.json()
+  } catch {
+    body = null
+  }
+  if (typeof body !== "object" || body === null) {
+    return NextResponse.json(
+      { error: "Invalid request", message: "Body must be JSON" },
+      { status: 400 }
+    )
+  }
+
+  const words = Array.isArray(body.words) ? body.words : []
+  if (words.length !== 16 || !words.every(word => typeof word === "string" && word.length > 0 && word.length <= MAX_WORD_LENGTH)) {
+    return NextResponse.json(
+      { error: "Invalid puzzle", message: `A room needs exactly 16 words of up to ${MAX_WORD_LENGTH} characters` },
+      { status: 400 }
+    )
+  }
+
+  const tileIds = createTiles(words).map(tile => tile.id)
+  const requested = body.order
+  const order = Array.isArray(requested) && requested.length === 16 && tileIds.every(id => requested.includes(id))
+    ? requested as string[]
+    : tileIds
+
+  // Only published puzzles have a date; anything else is a board of its own
+  const puzzleDate = typeof body.puzzleDate === "string" && isValidDateString(body.puzzleDate) && isPublishedDate(body.puzzleDate)
+    ? body.puzzleDate
+    : null
+  const puzzle = puzzleDate ? await getPuzzle(puzzleDate).catch(() => null) : null
+  const imageMap = puzzle?.imageMap
+    ? Object.fromEntries(Object.entries(puzzle.imageMap).filter(([word]) => words.includes(word)))
+    : null
+
+  try {
+    const snapshot = await createRoom(
+      {
+        words,
+        puzzleId: puzzleDate ? calculatePuzzleNumber(puzzleDate) : null,
+        puzzleDate,
+        imageMap,
+      },
+      {
+        order,
+        wordColors: toColorRecord(body.wordColors, words),
+        oneAwayWords: toColorRecord(body.oneAwayWords, words),
+      }
+    )
+    return NextResponse.json(snapshot, { status: 201 })
+  } catch (error) {
+    if (error instanceof RoomsUnavailableError) {
+      return NextResponse.json(
+        { error: "Rooms unavailable", message: "Solving together isn't set up on this server" },
+        { status: 503 }
+      )
+    }
+    console.error("Error creating room:", error)
+    return NextResponse.json(
+      { error: "Room not created", message: "Could not start a room. Try again." },
+      { status: 500 }
+    )
+  }
+}
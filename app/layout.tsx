@@ -3,6 +3,7 @@ import type { Metadata, Viewport } from 'next'
 import { Geist, Geist_Mono } from 'next/font/google'
 import { Analytics } from '@vercel/analytics/next'
 import Script from 'next/script'
+import { ServiceWorker } from '@/components/service-worker'
 import './globals.css'
 
 const _geist = Geist({ subsets: ["latin"] });
@@ -66,6 +67,7 @@ export default function RootLayout({
       <body className={`font-sans antialiased`}>
         {children}
         <Analytics />
+        <ServiceWorker />
       </body>
     </html>
   )
@@ -0,0 +1,10 @@
+import type { Metadata } from "next"
+import { StatsDashboard } from "@/components/stats-dashboard"
+
+export const metadata: Metadata = {
+  title: "Your Stats - Purple Hunter",
+}
+
+export default function StatsPage() {
+  return <StatsDashboard />
+}
@@ -0,0 +1,122 @@
+"use client"
+
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetDescription,
+} from "@/components/ui/sheet"
+import { usePalette } from "@/components/palette-provider"
+import type { AnalysisKind, CandidateGroup } from "@/lib/analysis"
+import type { CategoryColor } from "@/lib/categories"
+
+const KIND_LABELS: Record<AnalysisKind, string> = {
+  theme: "Meaning",
+  hidden: "Hidden word",
+  anagram: "Anagram",
+  homophone: "Sound",
+  compound: "Compound",
+  letters: "Spelling",
+}
+
+interface AnalysisSheetProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  candidates: CandidateGroup[]
+  redHerrings: Map<string, CandidateGroup[]> // Words that fit several candidates
+  oneAwayWords: Map<string, CategoryColor>
+  showOnBoard: boolean
+  onShowOnBoardChange: (show: boolean) => void
+}
+
+export function AnalysisSheet({
+  open,
+  onOpenChange,
+  candidates,
+  redHerrings,
+  oneAwayWords,
+  showOnBoard,
+  onShowOnBoardChange,
+}: AnalysisSheetProps) {
+  const palette = usePalette()
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="bg-[#1e1e1e] border-gray-700 rounded-t-2xl max-h-[85vh] overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="text-white">Word Analysis</SheetTitle>
+          <SheetDescription className="text-gray-400">
+            Possible groups found with built-in word lists. It doesn&apos;t know the answer, so treat these as leads.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="px-4 pb-6 space-y-3">
+          {candidates.length === 0 && (
+            <p className="text-sm text-gray-400 text-center">
+              Nothing stands out to the word lists - this one needs a human.
+            </p>
+          )}
+
+          {/* Words pulled in more than one direction - likely red herrings */}
+          {redHerrings.size > 0 && (
+            <section className="space-y-2 pb-1">
+              <h3 className="text-sm font-semibold text-white">Fits more than one group</h3>
+              <ul className="space-y-1.5">
+                {Array.from(redHerrings).map(([word, groups]) => {
+                  const oneAway = oneAwayWords.get(word)
+                  return (
+                    <li key={word} className="text-xs text-gray-400">
+                      <span className="font-semibold text-white">{word}</span>
+                      {oneAway && (
+                        <span className="inline-flex items-center gap-1 ml-2">
+                          <span className="w-2 h-2 rounded-full" style={{ backgroundColor: palette[oneAway].oneAwayDot }} />
+                          one away
+                        </span>
+                      )}
+                      <span className="block">{groups.map(group => group.label).join(" · ")}</span>
+                    </li>
+                  )
+                })}
+              </ul>
+              <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={showOnBoard}
+                  onChange={(e) => onShowOnBoardChange(e.target.checked)}
+                  className="accent-purple-500"
+                />
+                Mark these words on the board
+              </label>
+            </section>
+          )}
+
+          {candidates.map(candidate => (
+            <section key={candidate.id} className="bg-[#121212] rounded-lg p-3 space-y-2">
+              <div className="flex items-baseline gap-2">
+                <h3 className="text-sm font-semibold text-white">{candidate.label}</h3>
+                <span className="text-xs text-gray-500">{KIND_LABELS[candidate.kind]}</span>
+                {candidate.words.length > 4 && (
+                  <span className="ml-auto text-xs text-amber-300/80">
+                    {candidate.words.length} fit - only 4 can be right
+                  </span>
+                )}
+              </div>
+              <p className="text-xs text-gray-400">{candidate.explanation}</p>
+              <ul className="flex flex-wrap gap-1.5">
+                {candidate.words.map(word => (
+                  <li key={word} className="bg-[#2a2a2a] rounded-md px-2 py-1 text-xs">
+                    <span className="font-semibold text-white">{word}</span>
+                    {candidate.kind !== "theme" && (
+                      <span className="text-gray-500"> · {candidate.reasons[word]}</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </section>
+          ))}
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
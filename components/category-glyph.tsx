@@ -0,0 +1,14 @@
+import type { CategoryColor } from "@/lib/categories"
+
+// A distinct shape per group so color is never the only signal:
+// yellow circle, green triangle, blue square, purple diamond
+export function CategoryGlyph({ color, className }: { color: CategoryColor; className?: string }) {
+  return (
+    <svg viewBox="0 0 10 10" className={className} fill="currentColor" aria-hidden="true">
+      {color === "yellow" && <circle cx="5" cy="5" r="4" />}
+      {color === "green" && <polygon points="5,1 9.5,9 0.5,9" />}
+      {color === "blue" && <rect x="1.5" y="1.5" width="7" height="7" />}
+      {color === "purple" && <polygon points="5,0.5 9.5,5 5,9.5 0.5,5" />}
+    </svg>
+  )
+}
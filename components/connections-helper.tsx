@@ -1,8 +1,9 @@
 "use client"
 
 import React from "react"
-import { useState, useCallback, useEffect, useRef } from "react"
+import { useState, useCallback, useEffect, useRef, useMemo } from "react"
 import Script from "next/script"
+import Link from "next/link"
 import { motion, AnimatePresence, useMotionValue, useSpring } from "motion/react"
 import { Button } from "@/components/ui/button"
 import {
@@ -12,8 +13,50 @@ import {
   SheetTitle,
   SheetDescription,
 } from "@/components/ui/sheet"
-import { Shuffle, RotateCcw, RefreshCw, Calendar, Info } from "lucide-react"
+import { Shuffle, RotateCcw, RefreshCw, Calendar, Info, ChevronLeft, ChevronRight, Undo2, Redo2, Lightbulb, Share2, Settings as SettingsIcon, BarChart3, WifiOff, Users, Pencil, FileUp, ScanSearch, Split, Crosshair, PenTool, PencilLine, Layers } from "lucide-react"
 import { cn } from "@/lib/utils"
+import { LAUNCH_DATE, getTodayET, isPublishedDate, isValidDateString, puzzleNumberToDate, shiftDate } from "@/lib/puzzle-dates"
+import type { PuzzleData } from "@/lib/puzzle/types"
+import { CATEGORY_COLORS, CATEGORY_ORDER, PALETTES, type CategoryColor, type CategoryColorConfig } from "@/lib/categories"
+import { createTiles, type Tile, type TileOffset } from "@/lib/board"
+import { getBoardKey, loadBoardState, saveBoardState, clearBoardState, type BoardState } from "@/lib/board-storage"
+import { useUndoHistory } from "@/hooks/use-undo-history"
+import { useSolveTimer } from "@/hooks/use-solve-timer"
+import { GUESS_RESULT_LABELS, countMistakes, getSolvedColors, isGameOver, isSameGroup, type Guess, type GuessResult } from "@/lib/guesses"
+import { GuessPanel } from "@/components/guess-panel"
+import { useSettings } from "@/hooks/use-settings"
+import type { CheckResult } from "@/lib/puzzle/check"
+import { useHints } from "@/hooks/use-hints"
+import { HintSheet } from "@/components/hint-sheet"
+import { ShareSheet } from "@/components/share-sheet"
+import { buildShareText } from "@/lib/share"
+import { ShortcutsSheet } from "@/components/shortcuts-sheet"
+import { useAnnouncer } from "@/hooks/use-announcer"
+import { PaletteProvider, usePalette } from "@/components/palette-provider"
+import { CategoryGlyph } from "@/components/category-glyph"
+import { SettingsSheet } from "@/components/settings-sheet"
+import { recordResult } from "@/lib/stats"
+import { reportPlayed } from "@/lib/notifications"
+import { useRoom } from "@/hooks/use-room"
+import { RoomSheet } from "@/components/room-sheet"
+import { ParticipantAvatar } from "@/components/participant-avatar"
+import { diffRoomBoard } from "@/lib/rooms/actions"
+import { renderBoardImage } from "@/lib/board-image"
+import { buildBoardLinkUrl, encodeBoardLink, readBoardLinkHash, type BoardLink } from "@/lib/board-link"
+import { checkGroup } from "@/lib/puzzle/check"
+import type { PuzzleCategory } from "@/lib/puzzle/types"
+import { dealWords, decodeCustomPuzzle, encodeCustomPuzzle, readCustomPuzzleHash } from "@/lib/custom-puzzle"
+import type { ImportedPuzzle } from "@/lib/puzzle-import"
+import { PuzzleBuilder } from "@/components/puzzle-builder"
+import { ImportSheet } from "@/components/import-sheet"
+import { AnalysisSheet } from "@/components/analysis-sheet"
+import { analyzeWords, findRedHerrings } from "@/lib/analysis"
+import { SolverSheet } from "@/components/solver-sheet"
+import { solvePuzzle } from "@/lib/solver"
+import { LayoutsSheet } from "@/components/layouts-sheet"
+import { fitsTiles, isSameLayoutName, loadLayouts, saveLayouts, upsertLayout, type Layout } from "@/lib/layouts"
+import type { Participant, RoomBoard, RoomSnapshot } from "@/lib/rooms/types"
+import { SolveTimer } from "@/components/solve-timer"
 import { AddToHomeScreen } from "@/components/add-to-home-screen"
 
 declare global {
@@ -32,15 +75,6 @@ function trackEvent(action: string, params?: Record<string, unknown>) {
   }
 }
 
-const CATEGORY_COLORS = {
-  yellow: { bg: "#f9df6d", text: "#1a1a1a", label: "Yellow (Easiest)", oneAwayDot: "#b8860b", oneAwayText: "#8b6914", oneAwayRing: "#d4a017" },
-  green: { bg: "#a0c35a", text: "#1a1a1a", label: "Green (Medium)", oneAwayDot: "#2d5a27", oneAwayText: "#2d5a27", oneAwayRing: "#3d7a37" },
-  blue: { bg: "#b0c4ef", text: "#1a1a1a", label: "Blue (Hard)", oneAwayDot: "#1e4d8c", oneAwayText: "#1e4d8c", oneAwayRing: "#2e6dbc" },
-  purple: { bg: "#ba81c5", text: "#1a1a1a", label: "Purple (Tricky)", oneAwayDot: "#6b2d7b", oneAwayText: "#6b2d7b", oneAwayRing: "#8b4d9b" },
-} as const
-
-type CategoryColor = keyof typeof CATEGORY_COLORS
-
 const DEFAULT_WORDS = [
   "QUOTE", "PECK", "PRICE", "TOTAL",
   "DAMAGE", "TITLE", "BILL", "GRANT",
@@ -48,16 +82,17 @@ const DEFAULT_WORDS = [
   "WEBBING", "WRECK", "SYNOPSIS", "FEATHERS"
 ]
 
-interface PuzzleData {
-  id: number
-  date: string
-  words: string[]
-  imageMap?: Record<string, string>
-}
+const ZERO_OFFSET: TileOffset = { x: 0, y: 0 }
 
-interface Tile {
-  id: string    // Stable unique ID for animation tracking
-  word: string  // The word content
+const GRID_ROWS = [0, 1, 2, 3]
+const gridCellId = (tileId: string) => `grid-cell-${tileId}`
+
+// Grid steps for each arrow key
+const ARROW_MOVES: Record<string, { row: number; col: number }> = {
+  ArrowUp: { row: -1, col: 0 },
+  ArrowDown: { row: 1, col: 0 },
+  ArrowLeft: { row: 0, col: -1 },
+  ArrowRight: { row: 0, col: 1 },
 }
 
 interface DraggableTileProps {
@@ -67,18 +102,27 @@ interface DraggableTileProps {
   textColor: string
   fontSize: string
   imageUrl?: string
-  oneAwayConfig: typeof CATEGORY_COLORS[CategoryColor] | null
+  oneAwayConfig: CategoryColorConfig | null
+  glyph: CategoryColor | null // Shape to draw for the tile's group, if shapes are on
   shouldAnimate: boolean
   animationDelay: string
   animationClass: string
   isLoading: boolean
-  resetTrigger: number
+  offset: TileOffset
   onDragStart: (id: string) => void
-  onDragEnd: () => void
+  onDragEnd: (id: string, offset: TileOffset) => void
   onClick: (word: string) => void
   onAnimationEnd: () => void
   zIndex: number
   isDragging: boolean
+  isFocused: boolean
+  onFocus: () => void
+  isColored: boolean
+  description: string // Color and one-away status for screen readers
+  cursors: Participant[] // Other room participants who last touched this tile
+  competingGroups: string[] // Candidate groups this word fits, when it fits several (see lib/analysis)
+  pencilMarks: CategoryColor[] // Candidate colors noted in pencil
+  fadeColors: boolean // Ease color changes, e.g. when switching layouts
 }
 
 function DraggableTile({
@@ -89,19 +133,38 @@ function DraggableTile({
   fontSize,
   imageUrl,
   oneAwayConfig,
+  glyph,
   shouldAnimate,
   animationDelay,
   animationClass,
   isLoading,
-  resetTrigger,
+  offset,
   onDragStart,
   onDragEnd,
   onClick,
   onAnimationEnd,
   zIndex,
   isDragging,
+  isFocused,
+  onFocus,
+  isColored,
+  description,
+  cursors,
+  competingGroups,
+  pencilMarks,
+  fadeColors,
 }: DraggableTileProps) {
   const { id, word } = tile
+  const palette = usePalette()
+  const descriptionId = `${id}-description`
+  const buttonRef = useRef<HTMLButtonElement>(null)
+  
+  // Follow the keyboard cursor with real focus
+  useEffect(() => {
+    if (isFocused) {
+      buttonRef.current?.focus()
+    }
+  }, [isFocused])
   
   // Use motion values for x/y so we can imperatively reset them
   const x = useMotionValue(0)
@@ -113,21 +176,18 @@ function DraggableTile({
   // Track if we just dragged (to prevent click after drag)
   const justDraggedRef = useRef(false)
   
-  // Track if this is the first render (to skip animation on mount)
-  const isFirstRender = useRef(true)
-  
-  // Reset position when resetTrigger changes
+  // Move to the offset the board says this tile should have (restore, reset, shuffle)
   useEffect(() => {
-    if (isFirstRender.current) {
-      isFirstRender.current = false
+    const base = baseOffsetRef.current
+    if (base.x === offset.x && base.y === offset.y) {
       return
     }
     
-    baseOffsetRef.current = { x: 0, y: 0 }
+    baseOffsetRef.current = { x: offset.x, y: offset.y }
     
-    // Animate back to origin - fast decay animation
-    const currentX = x.get()
-    const currentY = y.get()
+    // Animate to the target - fast decay animation
+    const startX = x.get()
+    const startY = y.get()
     const duration = 300 // ms
     let startTime: number | null = null
     
@@ -139,24 +199,25 @@ function DraggableTile({
       // Ease out cubic for snappy feel
       const eased = 1 - Math.pow(1 - progress, 3)
       
-      x.set(currentX * (1 - eased))
-      y.set(currentY * (1 - eased))
+      x.set(startX + (offset.x - startX) * eased)
+      y.set(startY + (offset.y - startY) * eased)
       
       if (progress < 1) {
         requestAnimationFrame(animate)
       } else {
-        x.set(0)
-        y.set(0)
+        x.set(offset.x)
+        y.set(offset.y)
       }
     }
     
-    if (currentX !== 0 || currentY !== 0) {
-      requestAnimationFrame(animate)
-    }
-  }, [resetTrigger, x, y])
+    requestAnimationFrame(animate)
+  }, [offset.x, offset.y, x, y])
   
   return (
+    // display: contents keeps the button as the CSS grid item while giving it gridcell semantics
+    <div id={gridCellId(id)} role="gridcell" aria-colindex={(index % 4) + 1} className="contents">
     <motion.button
+      ref={buttonRef}
       key={id}
       layoutId={id}
       layout="position"
@@ -203,7 +264,7 @@ function DraggableTile({
           x: baseOffsetRef.current.x + info.offset.x,
           y: baseOffsetRef.current.y + info.offset.y,
         }
-        onDragEnd()
+        onDragEnd(id, baseOffsetRef.current)
         setTimeout(() => {
           justDraggedRef.current = false
         }, 50)
@@ -214,7 +275,18 @@ function DraggableTile({
         }
       }}
       onAnimationEnd={onAnimationEnd}
-      className={`aspect-square rounded-lg font-bold ${fontSize} flex items-center justify-center p-1 select-none relative overflow-hidden cursor-grab active:cursor-grabbing ${animationClass}`}
+      aria-pressed={isColored}
+      aria-describedby={descriptionId}
+      data-tile-index={index}
+      onFocus={(e) => {
+        // Only keyboard focus (e.g. Tab) moves the cursor, not a tap or click
+        if (e.currentTarget.matches(":focus-visible")) onFocus()
+      }}
+      className={cn(
+        `aspect-square rounded-lg font-bold ${fontSize} flex items-center justify-center p-1 select-none relative overflow-hidden cursor-grab active:cursor-grabbing ${animationClass}`,
+        fadeColors && "transition-[background-color,color] duration-300",
+        "outline-none focus-visible:ring-2 focus-visible:ring-white focus-visible:ring-offset-2 focus-visible:ring-offset-[#121212]"
+      )}
     >
       {!isLoading && (
         imageUrl ? (
@@ -233,9 +305,40 @@ function DraggableTile({
         <span 
           className="absolute top-1 right-1 w-2 h-2 rounded-full" 
           style={{ backgroundColor: oneAwayConfig.oneAwayDot }}
+          aria-hidden="true"
         />
       )}
+      {glyph && (
+        <CategoryGlyph color={glyph} className="absolute bottom-1 left-1 w-2.5 h-2.5 opacity-80" />
+      )}
+      {competingGroups.length > 0 && (
+        <span
+          className="absolute bottom-1 right-1 opacity-60"
+          title={`Fits ${competingGroups.join(", ")}`}
+          aria-hidden="true"
+        >
+          <Split className="w-3 h-3" />
+        </span>
+      )}
+      {pencilMarks.length > 0 && (
+        <span className="absolute top-1 left-1 flex gap-0.5" aria-hidden="true">
+          {pencilMarks.map(color => (
+            <span key={color} style={{ color: palette[color].bg }}>
+              <CategoryGlyph color={color} className="w-2 h-2 drop-shadow-[0_0_1px_rgba(0,0,0,0.9)]" />
+            </span>
+          ))}
+        </span>
+      )}
+      {cursors.length > 0 && (
+        <span className={cn("absolute left-1 flex -space-x-1", pencilMarks.length > 0 ? "top-4" : "top-1")}>
+          {cursors.map(participant => (
+            <ParticipantAvatar key={participant.id} participant={participant} className="w-3.5 h-3.5 text-[8px] ring-1 ring-black/30" />
+          ))}
+        </span>
+      )}
     </motion.button>
+    <span id={descriptionId} className="sr-only">{description}</span>
+    </div>
   )
 }
 
@@ -244,22 +347,26 @@ function ColorButton({
   selectedColor, 
   setSelectedColor, 
   count, 
+  pencilCount,
   isOneAway,
   canLongPress,
-  onLongPress 
+  onLongPress,
+  showGlyph,
 }: { 
   color: CategoryColor
   selectedColor: CategoryColor
   setSelectedColor: (color: CategoryColor) => void
   count: number
+  pencilCount: number // Tiles with this color pencilled in, kept apart from the 4/4
   isOneAway: boolean
   canLongPress: boolean
   onLongPress: () => void
+  showGlyph: boolean
 }) {
   const [longPressTimer, setLongPressTimer] = useState<NodeJS.Timeout | null>(null)
   const [didLongPress, setDidLongPress] = useState(false)
   const isComplete = count === 4
-  const colorConfig = CATEGORY_COLORS[color]
+  const colorConfig = usePalette()[color]
 
   const handleTouchStart = useCallback((e: React.TouchEvent | React.MouseEvent) => {
     e.preventDefault()
@@ -317,8 +424,18 @@ function ColorButton({
         WebkitTouchCallout: "none",
         boxShadow: isOneAway && !isComplete ? `0 0 0 2px #121212, 0 0 0 4px ${colorConfig.oneAwayRing}` : undefined,
       }}
-      aria-label={`Select ${colorConfig.label}${isOneAway ? " (one away)" : ""}`}
+      aria-label={`Select ${colorConfig.label}, ${count} of 4 marked${pencilCount > 0 ? `, ${pencilCount} pencilled` : ""}${isOneAway ? " (one away)" : ""}`}
+      aria-pressed={selectedColor === color}
     >
+      {pencilCount > 0 && (
+        <span
+          className="absolute top-0.5 left-1 flex items-center gap-px text-[9px] font-semibold pointer-events-none opacity-80"
+          style={{ color: colorConfig.text }}
+        >
+          <PencilLine className="w-2 h-2" />
+          {pencilCount}
+        </span>
+      )}
       {isOneAway && !isComplete && (
         <span 
           className="absolute top-1 right-1 w-2 h-2 rounded-full pointer-events-none" 
@@ -334,6 +451,12 @@ function ColorButton({
       >
         {count}/4
       </span>
+      {showGlyph && (
+        <CategoryGlyph
+          color={color}
+          className="absolute bottom-1 left-1 w-2.5 h-2.5 pointer-events-none"
+        />
+      )}
       {isOneAway && (
         <span 
           className="text-[10px] font-semibold pointer-events-none"
@@ -346,20 +469,19 @@ function ColorButton({
   )
 }
 
-// Helper to create tiles with stable IDs
-function createTiles(words: string[]): Tile[] {
-  return words.map((word, index) => ({
-    id: `tile-${index}`,
-    word,
-  }))
-}
-
 export function ConnectionsHelper() {
   const [tiles, setTiles] = useState<Tile[]>(() => createTiles(Array(16).fill("")))
   const [originalTiles, setOriginalTiles] = useState<Tile[]>(() => createTiles(Array(16).fill("")))
-  const [wordColors, setWordColors] = useState<Record<string, CategoryColor | null>>({})
+  const [wordColors, setWordColors] = useState<Record<string, CategoryColor>>({})
+  // Candidate colors noted on a tile as small corner marks, alongside its main color
+  const [pencilMarks, setPencilMarks] = useState<Record<string, CategoryColor[]>>({})
+  // Whether tapping a tile sets its color (ink) or toggles a pencil mark
+  const [markMode, setMarkMode] = useState<"ink" | "pencil">("ink")
   const [selectedColor, setSelectedColor] = useState<CategoryColor>("yellow")
   const [isEditing, setIsEditing] = useState(false)
+  const [editMode, setEditMode] = useState<"words" | "builder">("builder")
+  // A puzzle from the builder: its answer lives here, so groups are checked locally
+  const [customPuzzle, setCustomPuzzle] = useState<{ categories: PuzzleCategory[]; code: string } | null>(null)
   const [editText, setEditText] = useState(DEFAULT_WORDS.join("\n"))
   const [isLoading, setIsLoading] = useState(true)
   const [isShuffling, setIsShuffling] = useState(false)
@@ -368,30 +490,148 @@ export function ConnectionsHelper() {
   const [puzzleDate, setPuzzleDate] = useState<string | null>(null)
   const [puzzleId, setPuzzleId] = useState<number | null>(null)
   const [fetchError, setFetchError] = useState<string | null>(null)
+  // The puzzle came from the service worker's cache because the network was unreachable
+  // Served by the service worker without a connection: "saved" is the puzzle asked for,
+  // "fallback" the newest saved one because today's isn't on this device
+  const [offlineStatus, setOfflineStatus] = useState<"saved" | "fallback" | null>(null)
   const [showInfo, setShowInfo] = useState(false)
+  const [showHints, setShowHints] = useState(false)
+  const [showShare, setShowShare] = useState(false)
+  const [showShortcuts, setShowShortcuts] = useState(false)
+  const [showSettings, setShowSettings] = useState(false)
+  const [showRoom, setShowRoom] = useState(false)
+  const [showImport, setShowImport] = useState(false)
+  const [showAnalysis, setShowAnalysis] = useState(false)
+  const [showSolver, setShowSolver] = useState(false)
+  const [showLayouts, setShowLayouts] = useState(false)
+  // Named arrangements saved for this puzzle, and the one last opened or saved
+  const [layouts, setLayouts] = useState<Layout[]>([])
+  const [activeLayout, setActiveLayout] = useState<string | null>(null)
+  // Tiles fade between colors while a layout is being switched in
+  const [isSwitchingLayout, setIsSwitchingLayout] = useState(false)
+  // Grid position (0-15) of the keyboard cursor, or null when not using the keyboard
+  const [focusedIndex, setFocusedIndex] = useState<number | null>(null)
+  // Polite live-region text describing the latest board change
+  const [announcement, announce] = useAnnouncer()
   const [showInstallModal, setShowInstallModal] = useState(false)
   const [imageMap, setImageMap] = useState<Record<string, string> | null>(null)
   // Track one-away words with their original color for unique indicators
   const [oneAwayWords, setOneAwayWords] = useState<Map<string, CategoryColor>>(new Map())
+  // Groups submitted in the real game and the result the user reported
+  const [guesses, setGuesses] = useState<Guess[]>([])
+  const [settings, updateSettings] = useSettings()
+  const [isChecking, setIsChecking] = useState(false)
+  const [checkError, setCheckError] = useState<string | null>(null)
   // Track which colors have been reported as complete to avoid duplicate events
   const [reportedCompleteColors, setReportedCompleteColors] = useState<Set<CategoryColor>>(new Set())
   // Track which tile is currently being dragged
   const [draggingTileId, setDraggingTileId] = useState<string | null>(null)
-  // Counter to trigger drag position reset in DraggableTile components
-  const [resetTrigger, setResetTrigger] = useState(0)
+  // Where each tile has been dragged to, keyed by tile id (empty = all in grid)
+  const [tileOffsets, setTileOffsets] = useState<Record<string, TileOffset>>({})
+  // Local storage key for the current board (null until a puzzle is loaded)
+  const [boardKey, setBoardKey] = useState<string | null>(null)
+  const [hasSavedProgress, setHasSavedProgress] = useState(false)
+  const boardKeyRef = useRef(boardKey)
+  boardKeyRef.current = boardKey
+  // Collaborative room this board is synced with (see lib/rooms)
+  const [roomId, setRoomId] = useState<string | null>(null)
+  const [isCreatingRoom, setIsCreatingRoom] = useState(false)
+  const [roomError, setRoomError] = useState<string | null>(null)
+  // The board as the room last reported it; local differences from it get sent
+  const syncedRoomBoardRef = useRef<RoomBoard | null>(null)
+  const roomVersionRef = useRef(0)
+  const roomWordsRef = useRef("")
+  // Solve time for the current puzzle. It always runs (stats record it); the setting only shows it
+  const {
+    timer,
+    runningSince: timerRunningSince,
+    start: startTimer,
+    finish: finishTimer,
+    reopen: reopenTimer,
+    getSnapshot: getTimerSnapshot,
+  } = useSolveTimer()
+  // Hints only exist for official puzzles (the answer comes from the server)
+  const { hints, revealNextHint, loadingLevel: hintLoadingLevel, error: hintError } =
+    useHints(puzzleDate ? boardKey : null, puzzleDate)
   // Track z-index for each tile (most recently dragged is highest)
   const [tileZIndexes, setTileZIndexes] = useState<Record<string, number>>({})
   const maxZIndexRef = useRef(1)
+  // Undo/redo stacks of whole-board snapshots
+  const {
+    record: recordHistory,
+    undo: undoHistory,
+    redo: redoHistory,
+    clear: clearHistory,
+    canUndo,
+    canRedo,
+  } = useUndoHistory<BoardState>()
+
+  // Snapshot of everything undo/redo can restore
+  const board = useMemo<BoardState>(
+    () => ({ tiles, wordColors, oneAwayWords, tileOffsets, guesses, pencilMarks }),
+    [tiles, wordColors, oneAwayWords, tileOffsets, guesses, pencilMarks]
+  )
 
-  const fetchTodaysPuzzle = useCallback(async () => {
+  // Word-list analysis of the puzzle's words; only changes when the puzzle does
+  const candidates = useMemo(() => analyzeWords(originalTiles.map(t => t.word)), [originalTiles])
+  const redHerrings = useMemo(() => findRedHerrings(candidates), [candidates])
+
+  // What the guess log still allows; only worked out while the solver is open
+  const solverResult = useMemo(
+    () => showSolver ? solvePuzzle(originalTiles.map(t => t.word), guesses) : null,
+    [showSolver, originalTiles, guesses]
+  )
+
+  // Set up the board for a new puzzle, restoring any progress saved under this key
+  const loadBoard = useCallback((key: string, newTiles: Tile[]) => {
+    // Bank the outgoing puzzle's time - the save effect only sees timer checkpoints
+    const outgoingKey = boardKeyRef.current
+    const outgoing = outgoingKey && outgoingKey !== key ? loadBoardState(outgoingKey) : null
+    if (outgoingKey && outgoing) {
+      saveBoardState(outgoingKey, outgoing, getTimerSnapshot())
+    }
+
+    const saved = loadBoardState(key)
+    // Saved order/positions only apply if the tiles are the same ones (same IDs and words)
+    const savedTiles = saved && saved.tiles.length === newTiles.length
+      && saved.tiles.every(t => newTiles.some(n => n.id === t.id && n.word === t.word))
+      ? saved.tiles
+      : null
+    
+    setTiles(savedTiles ?? newTiles)
+    setOriginalTiles(newTiles)
+    setWordColors(saved?.wordColors ?? {})
+    setOneAwayWords(saved?.oneAwayWords ?? new Map())
+    setTileOffsets(savedTiles && saved ? saved.tileOffsets : {})
+    setGuesses(saved?.guesses ?? [])
+    setPencilMarks(saved?.pencilMarks ?? {})
+    setLayouts(loadLayouts(key).filter(layout => fitsTiles(layout, newTiles)))
+    setActiveLayout(null)
+    setCheckError(null)
+    setTileZIndexes({})
+    maxZIndexRef.current = 1
+    setBoardKey(key)
+    setCustomPuzzle(null)
+    clearHistory()
+    startTimer(saved?.timer)
+  }, [clearHistory, startTimer, getTimerSnapshot])
+
+  // Load a puzzle by date (YYYY-MM-DD), or today's puzzle when no date is given
+  const fetchPuzzle = useCallback(async (date?: string) => {
     setIsLoading(true)
     setFetchError(null)
     setShouldAnimateFlip(true)
-    setResetTrigger(k => k + 1) // Reset drag positions
     
     try {
-      const response = await fetch("/api/puzzle")
+      const response = await fetch(date ? `/api/puzzle?date=${date}` : "/api/puzzle")
       
+      // 404: no such puzzle; 503: offline with nothing cached (from the service worker)
+      if (response.status === 404 || response.status === 503) {
+        const body = await response.json().catch(() => null)
+        setFetchError(body?.message || `No puzzle found for ${date}.`)
+        return
+      }
+
       if (!response.ok) {
         throw new Error("Failed to fetch puzzle")
       }
@@ -399,32 +639,249 @@ export function ConnectionsHelper() {
       const data: PuzzleData = await response.json()
       
       if (data.words && data.words.length === 16) {
-        const newTiles = createTiles(data.words)
-        setTiles(newTiles)
-        setOriginalTiles(newTiles)
-        setWordColors({})
+        loadBoard(getBoardKey(data.id, data.words), createTiles(data.words))
         setPuzzleDate(data.date)
         setPuzzleId(data.id)
         setEditText(data.words.join("\n"))
         setImageMap(data.imageMap || null)
+        const offlineHeader = response.headers.get("X-Puzzle-Offline")
+        setOfflineStatus(offlineHeader === "fallback" ? "fallback" : offlineHeader ? "saved" : null)
         setPuzzleLoaded(true)
       } else {
         throw new Error("Invalid puzzle data")
       }
     } catch (error) {
       console.error("Error fetching puzzle:", error)
-      setFetchError("Could not fetch today's puzzle. Use Edit to enter words manually.")
+      setFetchError(date
+        ? "Could not fetch that puzzle. Check your connection and try again."
+        : "Could not fetch today's puzzle. Use Edit to enter words manually.")
     } finally {
       setIsLoading(false)
     }
+  }, [loadBoard])
+
+  const fetchTodaysPuzzle = useCallback(() => fetchPuzzle(), [fetchPuzzle])
+
+  // Archive navigation: step one day from the current puzzle, within launch..today
+  const goToDate = useCallback((date: string) => {
+    if (date < LAUNCH_DATE || date > getTodayET()) return
+    trackEvent("archive_navigate", { date })
+    fetchPuzzle(date)
+  }, [fetchPuzzle])
+
+  // Rebuild a board shared as a link, without fetching anything
+  const openBoardLink = useCallback((link: BoardLink) => {
+    const newTiles = createTiles(link.words)
+    loadBoard(getBoardKey(link.puzzleId, link.words), newTiles)
+    setTiles(link.order.map(index => newTiles[index]))
+    setWordColors(link.wordColors)
+    setOneAwayWords(link.oneAwayWords)
+    setTileOffsets({})
+    setPencilMarks({})
+    setPuzzleId(link.puzzleId)
+    setPuzzleDate(link.puzzleId !== null ? puzzleNumberToDate(link.puzzleId) : null)
+    setEditText(link.words.join("\n"))
+    setImageMap(null)
+    setOfflineStatus(null)
+    setFetchError(null)
+    setIsLoading(false)
+    setPuzzleLoaded(true)
+    // Drop the fragment so a reload shows this device's own progress, not the link again
+    window.history.replaceState(null, "", window.location.pathname + window.location.search)
+    trackEvent("open_board_link")
+  }, [loadBoard])
+
+  // Deal a puzzle from the builder (or a shared puzzle code)
+  const openCustomPuzzle = useCallback((categories: PuzzleCategory[], code: string) => {
+    const words = dealWords(categories, code)
+    loadBoard(getBoardKey(null, words), createTiles(words))
+    setCustomPuzzle({ categories, code })
+    setPuzzleDate(null)
+    setPuzzleId(null)
+    setEditText(words.join("\n"))
+    setImageMap(null)
+    setOfflineStatus(null)
+    setFetchError(null)
+    setIsLoading(false)
+    setShouldAnimateFlip(true)
+    setPuzzleLoaded(true)
+    setIsEditing(false)
+    trackEvent("open_custom_puzzle")
+  }, [loadBoard])
+
+  // Keep a custom puzzle's code in the address bar while it's open, so reloading reopens it
+  useEffect(() => {
+    if (!customPuzzle) return
+    const hash = `#p=${customPuzzle.code}`
+    window.history.replaceState(null, "", window.location.pathname + window.location.search + hash)
+    return () => {
+      if (window.location.hash === hash) {
+        window.history.replaceState(null, "", window.location.pathname + window.location.search)
+      }
+    }
+  }, [customPuzzle])
+
+  // Links pasted into an already-open tab only change the hash
+  useEffect(() => {
+    const handleHashChange = () => {
+      const link = readBoardLinkHash(window.location.hash)
+      const code = readCustomPuzzleHash(window.location.hash)
+      const categories = code ? decodeCustomPuzzle(code) : null
+      if (link) {
+        openBoardLink(link)
+      } else if (code && categories) {
+        openCustomPuzzle(categories, code)
+      }
+    }
+    window.addEventListener("hashchange", handleHashChange)
+    return () => window.removeEventListener("hashchange", handleHashChange)
+  }, [openBoardLink, openCustomPuzzle])
+
+  // Auto-fetch today's puzzle on mount - unless opening a board link, a custom
+  // puzzle or joining a room, which bring their own
+  useEffect(() => {
+    const link = readBoardLinkHash(window.location.hash)
+    const code = readCustomPuzzleHash(window.location.hash)
+    const categories = code ? decodeCustomPuzzle(code) : null
+    const room = new URLSearchParams(window.location.search).get("room")
+    if (link) {
+      openBoardLink(link)
+    } else if (code && categories) {
+      openCustomPuzzle(categories, code)
+    } else if (room) {
+      setRoomId(room.toUpperCase())
+    } else {
+      fetchTodaysPuzzle()
+    }
+  }, [fetchTodaysPuzzle, openBoardLink, openCustomPuzzle])
+
+  // Take the room's board: load its puzzle if this device has a different one,
+  // then its colors, one-away marks and order
+  const applyRoomSnapshot = useCallback(({ state }: RoomSnapshot) => {
+    if (state.version === roomVersionRef.current) return // Only participants changed
+    roomVersionRef.current = state.version
+    roomWordsRef.current = state.words.join("|")
+
+    const roomTiles = createTiles(state.words)
+    if (state.words.join("|") !== originalTiles.map(t => t.word).join("|")) {
+      loadBoard(getBoardKey(state.puzzleId, state.words), roomTiles)
+      setPuzzleDate(state.puzzleDate)
+      setPuzzleId(state.puzzleId)
+      setEditText(state.words.join("\n"))
+      setImageMap(state.imageMap)
+      setOfflineStatus(null)
+      setFetchError(null)
+      setIsLoading(false)
+      setPuzzleLoaded(true)
+    }
+
+    syncedRoomBoardRef.current = { order: state.order, wordColors: state.wordColors, oneAwayWords: state.oneAwayWords }
+    setTiles(state.order.map(id => roomTiles.find(t => t.id === id)).filter((t): t is Tile => t !== undefined))
+    setWordColors(state.wordColors)
+    setOneAwayWords(new Map(Object.entries(state.oneAwayWords)))
+  }, [originalTiles, loadBoard])
+
+  const {
+    participantId,
+    participants,
+    status: roomStatus,
+    sendActions: sendRoomActions,
+  } = useRoom(roomId, settings.roomName || "Guest", applyRoomSnapshot)
+
+  // Keep ?room= in the address bar so a reload stays in the room
+  const changeRoom = useCallback((id: string | null) => {
+    setRoomId(id)
+    syncedRoomBoardRef.current = null
+    roomVersionRef.current = 0
+    const url = new URL(window.location.href)
+    if (id) {
+      url.searchParams.set("room", id)
+    } else {
+      url.searchParams.delete("room")
+    }
+    window.history.replaceState(null, "", url)
   }, [])
 
-  // Auto-fetch today's puzzle on mount
+  const createRoom = useCallback(async () => {
+    setIsCreatingRoom(true)
+    setRoomError(null)
+
+    try {
+      const response = await fetch("/api/rooms", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          words: originalTiles.map(t => t.word),
+          puzzleDate,
+          order: tiles.map(t => t.id),
+          wordColors,
+          oneAwayWords: Object.fromEntries(oneAwayWords),
+        }),
+      })
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null)
+        throw new Error(body?.message || "Failed to create room")
+      }
+
+      const snapshot: RoomSnapshot = await response.json()
+      trackEvent("create_room")
+      changeRoom(snapshot.id)
+    } catch (error) {
+      console.error("Error creating room:", error)
+      setRoomError(error instanceof Error ? error.message : "Could not start a room.")
+    } finally {
+      setIsCreatingRoom(false)
+    }
+  }, [originalTiles, puzzleDate, tiles, wordColors, oneAwayWords, changeRoom])
+
+  // Send this device's changes to the room. Opening a different puzzle leaves it.
+  useEffect(() => {
+    const synced = syncedRoomBoardRef.current
+    if (!roomId || !synced) return
+
+    if (originalTiles.map(t => t.word).join("|") !== roomWordsRef.current) {
+      changeRoom(null)
+      return
+    }
+
+    const local: RoomBoard = { order: tiles.map(t => t.id), wordColors, oneAwayWords: Object.fromEntries(oneAwayWords) }
+    const actions = diffRoomBoard(synced, local)
+    if (actions.length > 0) {
+      syncedRoomBoardRef.current = local
+      sendRoomActions(actions)
+    }
+  }, [roomId, tiles, originalTiles, wordColors, oneAwayWords, sendRoomActions, changeRoom])
+
+  // The room ended (server restart or expiry) or the code was wrong
   useEffect(() => {
-    fetchTodaysPuzzle()
-  }, [fetchTodaysPuzzle])
+    if (roomStatus !== "missing") return
+    changeRoom(null)
+    setRoomError("That room has ended or the code is wrong.")
+    setShowRoom(true)
+    if (!boardKey) fetchTodaysPuzzle()
+  }, [roomStatus, changeRoom, boardKey, fetchTodaysPuzzle])
 
   const handleWordClick = useCallback((word: string) => {
+    recordHistory(board)
+    if (roomId) sendRoomActions([{ type: "cursor", word }])
+
+    // Pencil marks are private notes: they toggle per color and never reach the room
+    if (markMode === "pencil") {
+      const marks = board.pencilMarks[word] ?? []
+      const isMarked = marks.includes(selectedColor)
+      announce(`${word} pencil mark ${CATEGORY_COLORS[selectedColor].label} ${isMarked ? "removed" : "added"}`)
+      setPencilMarks(prev => {
+        const { [word]: _, ...rest } = prev
+        const next = CATEGORY_ORDER.filter(color => color === selectedColor ? !isMarked : marks.includes(color))
+        return next.length > 0 ? { ...rest, [word]: next } : rest
+      })
+      return
+    }
+
+    announce(board.wordColors[word] === selectedColor
+      ? `${word} unmarked`
+      : `${word} marked ${CATEGORY_COLORS[selectedColor].label}`)
     setWordColors(prev => {
       const currentColor = prev[word]
       if (currentColor === selectedColor) {
@@ -433,11 +890,12 @@ export function ConnectionsHelper() {
       }
       return { ...prev, [word]: selectedColor }
     })
-  }, [selectedColor])
+  }, [selectedColor, markMode, board, recordHistory, announce, roomId, sendRoomActions])
 
   const shuffleWords = useCallback(() => {
+    recordHistory(board)
     setShouldAnimateFlip(false)
-    setResetTrigger(k => k + 1) // Reset drag positions
+    setTileOffsets({}) // Reset drag positions
     setTileZIndexes({}) // Reset z-indexes
     maxZIndexRef.current = 1
     setIsShuffling(true)
@@ -454,17 +912,106 @@ export function ConnectionsHelper() {
     setTimeout(() => {
       setIsShuffling(false)
     }, 500)
-  }, [])
+    announce("Tiles shuffled")
+  }, [board, recordHistory, announce])
 
   const resetAll = useCallback(() => {
+    // Recorded as one snapshot so a single undo brings the whole board back
+    recordHistory(board)
     setWordColors({})
     // Restore original tile order - keep same IDs so Motion animates the position change
     setTiles([...originalTiles])
-    setResetTrigger(k => k + 1) // Reset drag positions
+    setTileOffsets({}) // Reset drag positions
     setTileZIndexes({}) // Reset z-indexes
     maxZIndexRef.current = 1
     setOneAwayWords(new Map()) // Clear one-away indicators
-  }, [originalTiles])
+    setGuesses([])
+    setPencilMarks({})
+    announce("Board reset")
+  }, [originalTiles, board, recordHistory, announce])
+
+  // Put a snapshot from the history back on the board
+  const applyBoard = useCallback((snapshot: BoardState) => {
+    setShouldAnimateFlip(false)
+    setTiles(snapshot.tiles)
+    setWordColors(snapshot.wordColors)
+    setOneAwayWords(snapshot.oneAwayWords)
+    setTileOffsets(snapshot.tileOffsets)
+    setGuesses(snapshot.guesses)
+    setPencilMarks(snapshot.pencilMarks)
+  }, [])
+
+  const undo = useCallback(() => {
+    const previous = undoHistory(board)
+    if (previous) {
+      applyBoard(previous)
+      announce("Undone")
+    }
+  }, [undoHistory, board, applyBoard, announce])
+
+  const redo = useCallback(() => {
+    const next = redoHistory(board)
+    if (next) {
+      applyBoard(next)
+      announce("Redone")
+    }
+  }, [redoHistory, board, applyBoard, announce])
+
+  // Keep the current arrangement under a name; an existing name is overwritten
+  const saveLayout = useCallback((name: string) => {
+    if (!boardKey) return
+    const next = upsertLayout(layouts, {
+      name,
+      savedAt: new Date().toISOString(),
+      tiles,
+      tileOffsets,
+      wordColors,
+      pencilMarks,
+    })
+    trackEvent("save_layout", { count: next.length })
+    setLayouts(next)
+    saveLayouts(boardKey, next)
+    setActiveLayout(name)
+    announce(`Layout ${name} saved`)
+  }, [boardKey, layouts, tiles, tileOffsets, wordColors, pencilMarks, announce])
+
+  // Bring a saved arrangement back; tiles glide to their places and colors fade across
+  const openLayout = useCallback((layout: Layout) => {
+    if (!fitsTiles(layout, originalTiles)) return
+    trackEvent("open_layout")
+    recordHistory(board)
+    setShouldAnimateFlip(false)
+    setIsSwitchingLayout(true)
+    setTiles(layout.tiles)
+    setTileOffsets(layout.tileOffsets)
+    setWordColors(layout.wordColors)
+    setPencilMarks(layout.pencilMarks)
+    setTileZIndexes({})
+    maxZIndexRef.current = 1
+    setActiveLayout(layout.name)
+    setTimeout(() => setIsSwitchingLayout(false), 400)
+    announce(`Layout ${layout.name} opened`)
+  }, [originalTiles, board, recordHistory, announce])
+
+  const deleteLayout = useCallback((name: string) => {
+    if (!boardKey) return
+    const next = layouts.filter(layout => !isSameLayoutName(layout.name, name))
+    trackEvent("delete_layout")
+    setLayouts(next)
+    saveLayouts(boardKey, next)
+    if (activeLayout && isSameLayoutName(activeLayout, name)) setActiveLayout(null)
+  }, [boardKey, layouts, activeLayout])
+
+  // A manual puzzle: just words, no answer to check against
+  const loadWords = useCallback((newWords: string[]) => {
+    loadBoard(getBoardKey(null, newWords), createTiles(newWords))
+    setPuzzleDate(null)
+    setPuzzleId(null)
+    setPuzzleLoaded(false)
+    setOfflineStatus(null)
+    setImageMap(null)
+    setIsEditing(false)
+  }, [loadBoard])
 
   const handleSaveWords = useCallback(() => {
     const newWords = editText
@@ -477,21 +1024,72 @@ export function ConnectionsHelper() {
       newWords.push(`WORD${newWords.length + 1}`)
     }
     
-    const newTiles = createTiles(newWords)
-    setTiles(newTiles)
-    setOriginalTiles(newTiles)
-    setWordColors({})
-    setPuzzleDate(null)
-    setPuzzleId(null)
-    setPuzzleLoaded(false)
-    setImageMap(null)
-    setIsEditing(false)
-  }, [editText])
+    loadWords(newWords)
+  }, [editText, loadWords])
+
+  // Imports with categories open like a custom puzzle, so guesses can be checked
+  const handleImport = useCallback((puzzle: ImportedPuzzle) => {
+    trackEvent("import_puzzle", { format: puzzle.format })
+    // A published puzzle opens as itself, with its number, hints and saved progress
+    if (puzzle.date && isValidDateString(puzzle.date) && isPublishedDate(puzzle.date)) {
+      fetchPuzzle(puzzle.date)
+    } else if (puzzle.categories) {
+      openCustomPuzzle(puzzle.categories, encodeCustomPuzzle(puzzle.categories))
+    } else {
+      setEditText(puzzle.words.join("\n"))
+      loadWords(puzzle.words)
+    }
+    setShowImport(false)
+  }, [fetchPuzzle, openCustomPuzzle, loadWords])
+
+  // Persist the board whenever it changes; an untouched board has nothing worth saving
+  useEffect(() => {
+    if (!boardKey) return
+    const isPristine = Object.keys(board.wordColors).length === 0
+      && board.oneAwayWords.size === 0
+      && board.guesses.length === 0
+      && Object.keys(board.pencilMarks).length === 0
+      && Object.values(board.tileOffsets).every(o => o.x === 0 && o.y === 0)
+      && board.tiles.every((tile, i) => tile.id === originalTiles[i]?.id)
+    
+    if (isPristine) {
+      clearBoardState(boardKey)
+    } else {
+      saveBoardState(boardKey, board, timer)
+    }
+    setHasSavedProgress(!isPristine)
+  }, [boardKey, board, originalTiles, timer])
+
+  // Playing today's puzzle cancels today's "haven't played" reminder
+  useEffect(() => {
+    if (settings.reminderTime && hasSavedProgress && puzzleDate === getTodayET()) {
+      reportPlayed(puzzleDate)
+    }
+  }, [settings.reminderTime, hasSavedProgress, puzzleDate])
+
+  const clearSavedProgress = useCallback(() => {
+    if (boardKey) {
+      clearBoardState(boardKey)
+    }
+    resetAll()
+  }, [boardKey, resetAll])
 
   const getColorCount = useCallback((color: CategoryColor) => {
     return Object.values(wordColors).filter(c => c === color).length
   }, [wordColors])
 
+  // Pencil marks are counted on their own - they never fill a group's 4/4
+  const getPencilCount = useCallback((color: CategoryColor) => {
+    return Object.values(pencilMarks).filter(colors => colors.includes(color)).length
+  }, [pencilMarks])
+
+  const toggleMarkMode = useCallback(() => {
+    const next = markMode === "ink" ? "pencil" : "ink"
+    trackEvent("toggle_mark_mode", { mode: next })
+    setMarkMode(next)
+    announce(next === "pencil" ? "Pencil marks" : "Ink")
+  }, [markMode, announce])
+
   // Track when a color reaches 4/4
   useEffect(() => {
     const colors: CategoryColor[] = ["yellow", "green", "blue", "purple"]
@@ -499,6 +1097,9 @@ export function ConnectionsHelper() {
       const count = Object.values(wordColors).filter(c => c === color).length
       if (count === 4 && !reportedCompleteColors.has(color)) {
         trackEvent("color_complete", { color })
+        announce(`${CATEGORY_COLORS[color].label} group complete: ${
+          Object.keys(wordColors).filter(word => wordColors[word] === color).join(", ")
+        }`)
         setReportedCompleteColors(prev => new Set(prev).add(color))
       } else if (count < 4 && reportedCompleteColors.has(color)) {
         // Reset if color drops below 4
@@ -509,14 +1110,108 @@ export function ConnectionsHelper() {
         })
       }
     }
-  }, [wordColors, reportedCompleteColors])
+  }, [wordColors, reportedCompleteColors, announce])
 
-  const toggleOneAway = useCallback((color: CategoryColor) => {
-    // Get words currently assigned to this color
-    const wordsWithColor = Object.entries(wordColors)
+  // The clock is stopped while every group is filled in or the game is over, and
+  // runs again if undo or reset takes that back
+  useEffect(() => {
+    const colorsComplete = CATEGORY_ORDER.every(color =>
+      Object.values(wordColors).filter(c => c === color).length === 4
+    )
+    if (colorsComplete || isGameOver(guesses)) {
+      finishTimer()
+    } else {
+      reopenTimer()
+    }
+  }, [wordColors, guesses, finishTimer, reopenTimer])
+
+  const getWordsWithColor = useCallback((color: CategoryColor) => {
+    return Object.entries(wordColors)
       .filter(([_, c]) => c === color)
       .map(([word]) => word)
+  }, [wordColors])
+
+  // Log a group submitted in the real game along with the result the user saw
+  const submitGuess = useCallback((color: CategoryColor, result: GuessResult, title?: string) => {
+    const words = getWordsWithColor(color)
     
+    // Only complete, new groups can be submitted - and only while the game is still going
+    if (words.length !== 4 || isGameOver(guesses) || guesses.some(g => isSameGroup(g.words, words))) {
+      return
+    }
+    
+    trackEvent("submit_guess", { color, result })
+    announce(`${CATEGORY_COLORS[color].label} guess logged: ${GUESS_RESULT_LABELS[result]}`)
+    recordHistory(board)
+    setGuesses(prev => [...prev, title ? { color, words, result, title } : { color, words, result }])
+    setOneAwayWords(prev => {
+      const newMap = new Map(prev)
+      // A one-away result marks these tiles; a correct one settles them
+      words.forEach(word => {
+        if (result === "one-away") {
+          newMap.set(word, color)
+        } else if (result === "correct") {
+          newMap.delete(word)
+        }
+      })
+      return newMap
+    })
+  }, [getWordsWithColor, guesses, board, recordHistory, announce])
+
+  // Ask the server's answer key about the group instead of relying on self-reporting
+  const checkGuess = useCallback(async (color: CategoryColor) => {
+    // The builder's answer came with the puzzle - no server needed
+    if (customPuzzle) {
+      const data = checkGroup(customPuzzle.categories, getWordsWithColor(color))
+      submitGuess(color, data.result, data.category?.title)
+      return
+    }
+    if (!puzzleDate) return
+    setIsChecking(true)
+    setCheckError(null)
+    
+    try {
+      const response = await fetch("/api/puzzle/check", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ date: puzzleDate, words: getWordsWithColor(color) }),
+      })
+      
+      if (!response.ok) {
+        const body = await response.json().catch(() => null)
+        throw new Error(body?.message || "Failed to check group")
+      }
+      
+      const data: CheckResult = await response.json()
+      submitGuess(color, data.result, data.category?.title)
+    } catch (error) {
+      console.error("Error checking group:", error)
+      setCheckError(error instanceof Error ? error.message : "Could not check that group.")
+    } finally {
+      setIsChecking(false)
+    }
+  }, [customPuzzle, puzzleDate, getWordsWithColor, submitGuess])
+
+  // Record finished official puzzles for the stats page
+  useEffect(() => {
+    // Wait for the timer to stop so the final time is recorded
+    if (puzzleId === null || puzzleDate === null || !isGameOver(guesses) || !timer.finished) return
+    const solveOrder = getSolvedColors(guesses)
+    recordResult({
+      puzzleId,
+      date: puzzleDate,
+      won: solveOrder.length === 4,
+      mistakes: countMistakes(guesses),
+      hintsUsed: hints.length,
+      solveOrder,
+      solveTimeMs: timer.elapsedMs,
+      completedAt: new Date().toISOString(),
+    })
+  }, [guesses, puzzleId, puzzleDate, hints.length, timer])
+
+  // Long-press shortcut: marking one away is submitting a one-away guess;
+  // unmarking takes that guess back out of the log
+  const toggleOneAway = useCallback((color: CategoryColor) => {
     // Check if this color already has one-away words
     const existingOneAwayForColor = Array.from(oneAwayWords.entries())
       .filter(([_, c]) => c === color)
@@ -524,26 +1219,19 @@ export function ConnectionsHelper() {
     
     // If there are existing one-away words for this color, remove them
     if (existingOneAwayForColor.length > 0) {
+      recordHistory(board)
       setOneAwayWords(prev => {
         const newMap = new Map(prev)
         existingOneAwayForColor.forEach(word => newMap.delete(word))
         return newMap
       })
+      setGuesses(prev => prev.filter(g => !(g.result === "one-away" && isSameGroup(g.words, existingOneAwayForColor))))
+      announce(`${CATEGORY_COLORS[color].label} one-away mark removed`)
       return
     }
     
-    // Only allow adding one-away if exactly 4 tiles are selected for this color
-    if (wordsWithColor.length !== 4) {
-      return
-    }
-    
-    setOneAwayWords(prev => {
-      const newMap = new Map(prev)
-      // Add these words to one-away with their color
-      wordsWithColor.forEach(word => newMap.set(word, color))
-      return newMap
-    })
-  }, [wordColors, oneAwayWords])
+    submitGuess(color, "one-away")
+  }, [oneAwayWords, submitGuess, board, recordHistory, announce])
 
   const formatDate = (dateStr: string) => {
     const date = new Date(dateStr + "T00:00:00")
@@ -556,43 +1244,152 @@ export function ConnectionsHelper() {
 
   
 
+  // Keyboard play: arrows move a cursor over the grid, number keys pick colors,
+  // letters run the toolbar actions. Ctrl+Z / Ctrl+Shift+Z (Cmd on Mac) undo and redo.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isEditing || e.defaultPrevented) return
+      const target = e.target as HTMLElement | null
+      // Leave typing and open dialogs alone
+      if (target?.closest("input, textarea, [contenteditable=true], [role=dialog]")) return
+      
+      const key = e.key.toLowerCase()
+      
+      if (e.ctrlKey || e.metaKey) {
+        if (key === "z" && !e.shiftKey) {
+          e.preventDefault()
+          undo()
+        } else if ((key === "z" && e.shiftKey) || key === "y") {
+          e.preventDefault()
+          redo()
+        }
+        return
+      }
+      if (e.altKey || isLoading) return
+      
+      const move = ARROW_MOVES[e.key]
+      if (move) {
+        e.preventDefault()
+        setFocusedIndex(prev => {
+          if (prev === null) return 0
+          const row = Math.min(3, Math.max(0, Math.floor(prev / 4) + move.row))
+          const col = Math.min(3, Math.max(0, (prev % 4) + move.col))
+          return row * 4 + col
+        })
+        return
+      }
+      
+      if (["1", "2", "3", "4"].includes(key)) {
+        const color = CATEGORY_ORDER[Number(key) - 1]
+        setSelectedColor(color)
+        announce(`${CATEGORY_COLORS[color].label} selected`)
+      } else if ((key === " " || key === "enter") && focusedIndex !== null && target?.dataset.tileIndex === String(focusedIndex)) {
+        // Only while the cursor's tile has focus - other buttons keep their own Space/Enter.
+        // Stop the tile's native click so it isn't colored twice
+        e.preventDefault()
+        handleWordClick(tiles[focusedIndex].word)
+      } else if (key === "s" && !isShuffling) {
+        trackEvent("keyboard_shuffle")
+        shuffleWords()
+      } else if (key === "r") {
+        trackEvent("keyboard_reset")
+        resetAll()
+      } else if (key === "o") {
+        toggleOneAway(selectedColor)
+      } else if (key === "p") {
+        toggleMarkMode()
+      } else if (key === "escape") {
+        setFocusedIndex(null)
+        target?.blur()
+      } else if (e.key === "?") {
+        setShowShortcuts(true)
+      }
+    }
+    
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [
+    isEditing, isLoading, isShuffling, focusedIndex, tiles, selectedColor,
+    undo, redo, handleWordClick, shuffleWords, resetAll, toggleOneAway, toggleMarkMode, announce,
+  ])
+
   if (isEditing) {
     return (
+      <PaletteProvider palette={settings.palette}>
       <div className="min-h-screen bg-[#121212] text-white p-4 flex flex-col">
-        <h1 className="text-xl font-bold text-center mb-4">Edit Words</h1>
-        <p className="text-sm text-gray-400 text-center mb-4">
-          Enter 16 words, one per line or comma-separated
-        </p>
-        <textarea
-          value={editText}
-          onChange={(e) => setEditText(e.target.value)}
-          className="flex-1 min-h-[300px] bg-[#2a2a2a] text-white p-4 rounded-lg text-base font-mono resize-none focus:outline-none focus:ring-2 focus:ring-white/30"
-          placeholder="Enter words here..."
-          autoFocus
-        />
-        <div className="flex gap-3 mt-4">
-          <Button
-            onClick={() => setIsEditing(false)}
-            variant="outline"
-            className="flex-1 h-12 border-white/30 text-white hover:bg-white/10 bg-transparent"
-          >
-            Cancel
-          </Button>
-          <Button
-            onClick={handleSaveWords}
-            className="flex-1 h-12 bg-white text-black hover:bg-gray-200"
-          >
-            Save Words
-          </Button>
+        <h1 className="text-xl font-bold text-center mb-4">
+          {editMode === "builder" ? "Build a Puzzle" : "Edit Words"}
+        </h1>
+
+        {/* Builder with categories, or just the 16 words */}
+        <div role="tablist" className="flex justify-center gap-2 mb-4">
+          {([["builder", "Build with categories"], ["words", "Just words"]] as const).map(([mode, label]) => (
+            <button
+              key={mode}
+              role="tab"
+              aria-selected={editMode === mode}
+              onClick={() => setEditMode(mode)}
+              className={cn(
+                "px-3 h-8 rounded-full text-sm transition-colors",
+                editMode === mode ? "bg-white text-black" : "text-gray-400 hover:text-white"
+              )}
+            >
+              {label}
+            </button>
+          ))}
         </div>
+
+        {editMode === "builder" ? (
+          <div className="w-full max-w-md mx-auto">
+            <PuzzleBuilder
+              initialCategories={customPuzzle?.categories ?? null}
+              onPlay={openCustomPuzzle}
+              onCancel={() => setIsEditing(false)}
+            />
+          </div>
+        ) : (
+          <>
+            <p className="text-sm text-gray-400 text-center mb-4">
+              Enter 16 words, one per line or comma-separated
+            </p>
+            <textarea
+              value={editText}
+              onChange={(e) => setEditText(e.target.value)}
+              className="flex-1 min-h-[300px] bg-[#2a2a2a] text-white p-4 rounded-lg text-base font-mono resize-none focus:outline-none focus:ring-2 focus:ring-white/30"
+              placeholder="Enter words here..."
+              autoFocus
+            />
+            <div className="flex gap-3 mt-4">
+              <Button
+                onClick={() => setIsEditing(false)}
+                variant="outline"
+                className="flex-1 h-12 border-white/30 text-white hover:bg-white/10 bg-transparent"
+              >
+                Cancel
+              </Button>
+              <Button
+                onClick={handleSaveWords}
+                className="flex-1 h-12 bg-white text-black hover:bg-gray-200"
+              >
+                Save Words
+              </Button>
+            </div>
+          </>
+        )}
       </div>
+      </PaletteProvider>
     )
   }
 
   // Loading state for grid overlay (only for page load/refresh, not shuffle)
   const showGridLoading = isLoading
+  const palette = PALETTES[settings.palette].colors
+  const timerLabel = settings.showTimer && boardKey && (
+    <SolveTimer timer={timer} runningSince={timerRunningSince} />
+  )
 
   return (
+    <PaletteProvider palette={settings.palette}>
     <div className="min-h-screen bg-[#121212] text-white p-4 flex flex-col items-center">
       <div className="w-full max-w-md flex flex-col">
       {/* Header */}
@@ -611,12 +1408,58 @@ export function ConnectionsHelper() {
         <div className="text-center flex-1">
           <h1 className="text-xl font-bold mb-0.5">Purple Hunter</h1>
           {puzzleDate && puzzleId ? (
-            <div className="flex items-center justify-center gap-2 text-sm text-gray-400">
-              <Calendar className="w-3.5 h-3.5" />
-              <span>{formatDate(puzzleDate)} • Puzzle #{puzzleId}</span>
+            <div className="flex items-center justify-center gap-1 text-sm text-gray-400">
+              <button
+                onClick={() => goToDate(shiftDate(puzzleDate, -1))}
+                disabled={isLoading || puzzleDate <= LAUNCH_DATE}
+                className="w-6 h-6 flex items-center justify-center rounded-full hover:bg-white/10 transition-colors disabled:opacity-30"
+                aria-label="Previous day's puzzle"
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+              <label className="relative flex items-center gap-2 px-1 cursor-pointer rounded hover:bg-white/10">
+                <Calendar className="w-3.5 h-3.5" />
+                <span>{formatDate(puzzleDate)} • Puzzle #{puzzleId}</span>
+                {/* Native date picker layered invisibly over the header text */}
+                <input
+                  type="date"
+                  value={puzzleDate}
+                  min={LAUNCH_DATE}
+                  max={getTodayET()}
+                  onChange={(e) => {
+                    if (e.target.value) goToDate(e.target.value)
+                  }}
+                  disabled={isLoading}
+                  className="absolute inset-0 opacity-0 cursor-pointer"
+                  aria-label="Pick a puzzle date"
+                />
+              </label>
+              <button
+                onClick={() => goToDate(shiftDate(puzzleDate, 1))}
+                disabled={isLoading || puzzleDate >= getTodayET()}
+                className="w-6 h-6 flex items-center justify-center rounded-full hover:bg-white/10 transition-colors disabled:opacity-30"
+                aria-label="Next day's puzzle"
+              >
+                <ChevronRight className="w-4 h-4" />
+              </button>
+              {timerLabel}
+              {offlineStatus && (
+                <span
+                  className="flex items-center gap-1 ml-1 px-1.5 py-0.5 rounded-full bg-white/10 text-xs text-gray-300"
+                  title={offlineStatus === "fallback"
+                    ? "Today's puzzle isn't saved on this device, so this is the last saved puzzle. Refresh when you're back online."
+                    : "Showing the saved copy of this puzzle. Refresh when you're back online."}
+                >
+                  <WifiOff className="w-3 h-3" />
+                  {offlineStatus === "fallback" ? `Offline – showing ${formatDate(puzzleDate)}` : "Offline"}
+                </span>
+              )}
             </div>
           ) : (
-            <p className="text-sm text-gray-400">Create four groups of four!</p>
+            <div className="flex items-center justify-center gap-1 text-sm text-gray-400">
+              <p>{customPuzzle ? "Custom puzzle" : "Create four groups of four!"}</p>
+              {timerLabel}
+            </div>
           )}
         </div>
         
@@ -649,39 +1492,105 @@ export function ConnectionsHelper() {
           selectedColor={selectedColor} 
           setSelectedColor={setSelectedColor}
           count={getColorCount("yellow")}
+          pencilCount={getPencilCount("yellow")}
           isOneAway={Array.from(oneAwayWords.values()).includes("yellow")}
           canLongPress={getColorCount("yellow") === 4}
           onLongPress={() => toggleOneAway("yellow")}
+          showGlyph={settings.showGlyphs}
         />
         <ColorButton 
           color="green" 
           selectedColor={selectedColor} 
           setSelectedColor={setSelectedColor}
           count={getColorCount("green")}
+          pencilCount={getPencilCount("green")}
           isOneAway={Array.from(oneAwayWords.values()).includes("green")}
           canLongPress={getColorCount("green") === 4}
           onLongPress={() => toggleOneAway("green")}
+          showGlyph={settings.showGlyphs}
         />
         <ColorButton 
           color="blue" 
           selectedColor={selectedColor} 
           setSelectedColor={setSelectedColor}
           count={getColorCount("blue")}
+          pencilCount={getPencilCount("blue")}
           isOneAway={Array.from(oneAwayWords.values()).includes("blue")}
           canLongPress={getColorCount("blue") === 4}
           onLongPress={() => toggleOneAway("blue")}
+          showGlyph={settings.showGlyphs}
         />
         <ColorButton 
           color="purple" 
           selectedColor={selectedColor} 
           setSelectedColor={setSelectedColor}
           count={getColorCount("purple")}
+          pencilCount={getPencilCount("purple")}
           isOneAway={Array.from(oneAwayWords.values()).includes("purple")}
           canLongPress={getColorCount("purple") === 4}
           onLongPress={() => toggleOneAway("purple")}
+          showGlyph={settings.showGlyphs}
         />
+        {/* Ink colors a tile; pencil adds a small candidate mark instead */}
+        <button
+          onClick={toggleMarkMode}
+          className={cn(
+            "w-10 h-14 rounded-lg border flex flex-col items-center justify-center gap-1 transition-colors",
+            markMode === "pencil"
+              ? "border-white bg-white/10 text-white"
+              : "border-white/30 text-gray-400 hover:text-white hover:bg-white/10"
+          )}
+          aria-pressed={markMode === "pencil"}
+          aria-label={markMode === "pencil" ? "Pencil marks on, switch to ink" : "Ink on, switch to pencil marks"}
+          title="Ink or pencil marks (P)"
+        >
+          {markMode === "pencil" ? <PencilLine className="w-4 h-4" /> : <PenTool className="w-4 h-4" />}
+          <span className="text-[10px] font-semibold">{markMode === "pencil" ? "Pencil" : "Ink"}</span>
+        </button>
       </div>
 
+      {/* Who's in the room */}
+      {roomId && (
+        <button
+          onClick={() => setShowRoom(true)}
+          className="flex items-center justify-center gap-2 mb-3 text-xs text-gray-400 hover:text-white transition-colors"
+        >
+          <span className="flex -space-x-1.5">
+            {participants.map(participant => (
+              <ParticipantAvatar key={participant.id} participant={participant} className="w-6 h-6 ring-2 ring-[#121212]" />
+            ))}
+          </span>
+          <span>
+            Room {roomId}
+            {roomStatus === "connecting" ? " • Connecting..." : ` • ${participants.length} here`}
+          </span>
+        </button>
+      )}
+
+      {/* Quick switching between saved layouts */}
+      {layouts.length > 0 && (
+        <div className="flex gap-2 mb-3 overflow-x-auto pb-1" role="group" aria-label="Saved layouts">
+          {layouts.map(layout => {
+            const isActive = activeLayout !== null && isSameLayoutName(layout.name, activeLayout)
+            return (
+              <button
+                key={layout.name}
+                onClick={() => openLayout(layout)}
+                aria-pressed={isActive}
+                className={cn(
+                  "flex-shrink-0 max-w-[10rem] truncate rounded-full border px-3 py-1 text-xs transition-colors",
+                  isActive
+                    ? "border-purple-400 bg-purple-600/30 text-white"
+                    : "border-white/30 text-gray-400 hover:text-white hover:bg-white/10"
+                )}
+              >
+                {layout.name}
+              </button>
+            )
+          })}
+        </div>
+      )}
+
       {/* Word Grid */}
       <div className="relative mb-3">
         {/* Loading Overlay on Grid */}
@@ -691,17 +1600,46 @@ export function ConnectionsHelper() {
             <p className="text-sm font-medium text-white">Loading puzzle...</p>
           </div>
         )}
-        <div className={cn(
-          "grid grid-cols-4 gap-2 transition-opacity duration-200",
-          showGridLoading && "opacity-40"
-        )} style={{ perspective: "1000px" }}>
+        <div
+          role="grid"
+          aria-label="Puzzle words"
+          aria-rowcount={4}
+          aria-colcount={4}
+          aria-busy={showGridLoading}
+          className={cn(
+            "grid grid-cols-4 gap-2 transition-opacity duration-200",
+            showGridLoading && "opacity-40"
+          )}
+          style={{ perspective: "1000px" }}
+        >
+        {/* Rows claim their cells with aria-owns instead of wrapping them, so a tile moving to
+            another row keeps its element (and its focus and reorder animation) */}
+        {GRID_ROWS.map(row => (
+          <div
+            key={row}
+            role="row"
+            aria-rowindex={row + 1}
+            aria-owns={tiles.slice(row * 4, row * 4 + 4).map(tile => gridCellId(tile.id)).join(" ")}
+            className="contents"
+          />
+        ))}
         {tiles.map((tile, index) => {
           const { id, word } = tile
           const color = wordColors[word]
-          const bgColor = color ? CATEGORY_COLORS[color].bg : "#d4d4c8"
-          const textColor = color ? CATEGORY_COLORS[color].text : "#1a1a1a"
+          const bgColor = color ? palette[color].bg : "#d4d4c8"
+          const textColor = color ? palette[color].text : "#1a1a1a"
           const oneAwayColor = oneAwayWords.get(word)
-          const oneAwayConfig = oneAwayColor ? CATEGORY_COLORS[oneAwayColor] : null
+          const oneAwayConfig = oneAwayColor ? palette[oneAwayColor] : null
+          const competingGroups = settings.showRedHerrings
+            ? (redHerrings.get(word) ?? []).map(group => group.label)
+            : []
+          const marks = pencilMarks[word] ?? []
+          const description = [
+            color ? `Marked ${CATEGORY_COLORS[color].label}` : "Not marked",
+            marks.length > 0 && `Pencilled ${marks.map(c => CATEGORY_COLORS[c].label).join(", ")}`,
+            oneAwayConfig && `One away in the ${oneAwayConfig.label} guess`,
+            competingGroups.length > 0 && `Fits ${competingGroups.length} possible groups: ${competingGroups.join(", ")}`,
+          ].filter(Boolean).join(". ")
           
           const imageUrl = imageMap?.[word]
           const fontSize = word.length > 10 ? "text-[9px] sm:text-xs" : word.length > 7 ? "text-[10px] sm:text-xs" : "text-xs sm:text-sm"
@@ -723,11 +1661,12 @@ export function ConnectionsHelper() {
               fontSize={fontSize}
               imageUrl={imageUrl}
               oneAwayConfig={oneAwayConfig}
+              glyph={settings.showGlyphs && color ? color : null}
               shouldAnimate={shouldAnimate}
               animationDelay={animationDelay}
               animationClass={animationClass}
               isLoading={isLoading}
-              resetTrigger={resetTrigger}
+              offset={tileOffsets[id] ?? ZERO_OFFSET}
               onDragStart={(id) => {
                 setDraggingTileId(id)
                 maxZIndexRef.current += 1
@@ -736,7 +1675,11 @@ export function ConnectionsHelper() {
                   [id]: maxZIndexRef.current
                 }))
               }}
-              onDragEnd={() => setDraggingTileId(null)}
+              onDragEnd={(id, offset) => {
+                recordHistory(board)
+                setDraggingTileId(null)
+                setTileOffsets(prev => ({ ...prev, [id]: offset }))
+              }}
               onClick={handleWordClick}
               onAnimationEnd={() => {
                 if (shouldAnimateFlip && index === 15) {
@@ -745,14 +1688,39 @@ export function ConnectionsHelper() {
               }}
               zIndex={tileZIndexes[id] || 1}
               isDragging={isDragging}
+              isFocused={focusedIndex === index}
+              onFocus={() => setFocusedIndex(index)}
+              isColored={Boolean(color)}
+              description={description}
+              competingGroups={competingGroups}
+              pencilMarks={marks}
+              fadeColors={isSwitchingLayout}
+              cursors={participants.filter(p => p.id !== participantId && p.cursor === word)}
             />
           )
         })}
         </div>
+        {/* Screen reader announcements for board changes */}
+        <div aria-live="polite" aria-atomic="true" className="sr-only">
+          {announcement}
+        </div>
       </div>
 
       {/* Action Buttons */}
       <div className="flex gap-3">
+        <Button
+          onClick={() => {
+            trackEvent("click_undo_button")
+            undo()
+          }}
+          disabled={!canUndo || showGridLoading}
+          variant="outline"
+          className="w-12 h-12 p-0 border-white/30 text-white hover:bg-white/10 bg-transparent disabled:opacity-50"
+          aria-label="Undo"
+          title="Undo (Ctrl+Z)"
+        >
+          <Undo2 className="w-4 h-4" />
+        </Button>
         <Button
           onClick={() => {
             trackEvent("click_shuffle_button")
@@ -776,8 +1744,281 @@ export function ConnectionsHelper() {
           <RotateCcw className="w-4 h-4 mr-2" />
           Reset
         </Button>
+        <Button
+          onClick={() => {
+            trackEvent("click_redo_button")
+            redo()
+          }}
+          disabled={!canRedo || showGridLoading}
+          variant="outline"
+          className="w-12 h-12 p-0 border-white/30 text-white hover:bg-white/10 bg-transparent disabled:opacity-50"
+          aria-label="Redo"
+          title="Redo (Ctrl+Shift+Z)"
+        >
+          <Redo2 className="w-4 h-4" />
+        </Button>
       </div>
 
+      {/* Submitted guesses and mistakes */}
+      <GuessPanel
+        guesses={guesses}
+        selectedColor={selectedColor}
+        selectedWords={getWordsWithColor(selectedColor)}
+        onSubmit={submitGuess}
+        canCheck={puzzleDate !== null || customPuzzle !== null}
+        checkAnswers={settings.checkAnswers}
+        isChecking={isChecking}
+        checkError={checkError}
+        onCheck={(color) => {
+          trackEvent("click_check_group", { color })
+          checkGuess(color)
+        }}
+        onCheckAnswersChange={(checkAnswers) => {
+          trackEvent("toggle_check_answers", { enabled: checkAnswers })
+          updateSettings({ checkAnswers })
+        }}
+      />
+
+      {/* Hints, sharing, rooms, stats and settings */}
+      <div className="mt-3 flex flex-wrap items-center justify-center gap-x-5 gap-y-2">
+        {puzzleDate && (
+          <button
+            onClick={() => {
+              trackEvent("click_hints_button")
+              setShowHints(true)
+            }}
+            className="flex items-center gap-1.5 text-sm text-gray-400 hover:text-white transition-colors"
+          >
+            <Lightbulb className="w-4 h-4" />
+            {hints.length > 0 ? `Hints (${hints.length} used)` : "Need a hint?"}
+          </button>
+        )}
+        <button
+          onClick={() => {
+            trackEvent("click_analysis_button")
+            setShowAnalysis(true)
+          }}
+          className="flex items-center gap-1.5 text-sm text-gray-400 hover:text-white transition-colors"
+        >
+          <ScanSearch className="w-4 h-4" />
+          Analyze
+        </button>
+        <button
+          onClick={() => {
+            trackEvent("click_solver_button", { guesses: guesses.length })
+            setShowSolver(true)
+          }}
+          className="flex items-center gap-1.5 text-sm text-gray-400 hover:text-white transition-colors"
+        >
+          <Crosshair className="w-4 h-4" />
+          Solver
+        </button>
+        <button
+          onClick={() => {
+            trackEvent("click_layouts_button")
+            setShowLayouts(true)
+          }}
+          className="flex items-center gap-1.5 text-sm text-gray-400 hover:text-white transition-colors"
+        >
+          <Layers className="w-4 h-4" />
+          Layouts
+        </button>
+        <button
+          onClick={() => {
+            trackEvent("click_share_button")
+            setShowShare(true)
+          }}
+          className="flex items-center gap-1.5 text-sm text-gray-400 hover:text-white transition-colors"
+        >
+          <Share2 className="w-4 h-4" />
+          Share
+        </button>
+        <button
+          onClick={() => {
+            trackEvent("click_room_button")
+            setShowRoom(true)
+          }}
+          className="flex items-center gap-1.5 text-sm text-gray-400 hover:text-white transition-colors"
+        >
+          <Users className="w-4 h-4" />
+          {roomId ? "Room" : "Together"}
+        </button>
+        <Link
+          href="/stats"
+          onClick={() => trackEvent("click_stats_button")}
+          className="flex items-center gap-1.5 text-sm text-gray-400 hover:text-white transition-colors"
+        >
+          <BarChart3 className="w-4 h-4" />
+          Stats
+        </Link>
+        <button
+          onClick={() => {
+            trackEvent("click_settings_button")
+            setShowSettings(true)
+          }}
+          className="flex items-center gap-1.5 text-sm text-gray-400 hover:text-white transition-colors"
+        >
+          <SettingsIcon className="w-4 h-4" />
+          Settings
+        </button>
+        <button
+          onClick={() => {
+            trackEvent("click_edit_button")
+            setIsEditing(true)
+          }}
+          className="flex items-center gap-1.5 text-sm text-gray-400 hover:text-white transition-colors"
+        >
+          <Pencil className="w-4 h-4" />
+          Edit
+        </button>
+        <button
+          onClick={() => {
+            trackEvent("click_import_button")
+            setShowImport(true)
+          }}
+          className="flex items-center gap-1.5 text-sm text-gray-400 hover:text-white transition-colors"
+        >
+          <FileUp className="w-4 h-4" />
+          Import
+        </button>
+      </div>
+
+      <ImportSheet open={showImport} onOpenChange={setShowImport} onImport={handleImport} />
+
+      <AnalysisSheet
+        open={showAnalysis}
+        onOpenChange={setShowAnalysis}
+        candidates={candidates}
+        redHerrings={redHerrings}
+        oneAwayWords={oneAwayWords}
+        showOnBoard={settings.showRedHerrings}
+        onShowOnBoardChange={(showRedHerrings) => {
+          trackEvent("toggle_red_herrings", { enabled: showRedHerrings })
+          updateSettings({ showRedHerrings })
+        }}
+      />
+
+      <SolverSheet
+        open={showSolver}
+        onOpenChange={setShowSolver}
+        result={solverResult}
+        hasGuesses={guesses.length > 0}
+      />
+
+      <LayoutsSheet
+        open={showLayouts}
+        onOpenChange={setShowLayouts}
+        layouts={layouts}
+        activeName={activeLayout}
+        onSave={saveLayout}
+        onOpen={(layout) => {
+          openLayout(layout)
+          setShowLayouts(false)
+        }}
+        onDelete={deleteLayout}
+      />
+
+      <RoomSheet
+        open={showRoom}
+        onOpenChange={(open) => {
+          setShowRoom(open)
+          if (!open) setRoomError(null)
+        }}
+        roomId={roomId}
+        status={roomStatus}
+        participants={participants}
+        participantId={participantId}
+        name={settings.roomName}
+        onNameChange={(roomName) => updateSettings({ roomName })}
+        isCreating={isCreatingRoom}
+        error={roomError}
+        onCreate={createRoom}
+        onJoin={(code) => {
+          trackEvent("join_room")
+          setRoomError(null)
+          changeRoom(code)
+        }}
+        onLeave={() => {
+          trackEvent("leave_room")
+          changeRoom(null)
+        }}
+      />
+
+      <SettingsSheet
+        open={showSettings}
+        onOpenChange={setShowSettings}
+        settings={settings}
+        onSettingsChange={(changes) => {
+          trackEvent("change_settings", changes)
+          updateSettings(changes)
+        }}
+      />
+
+      <HintSheet
+        open={showHints}
+        onOpenChange={setShowHints}
+        hints={hints}
+        loadingLevel={hintLoadingLevel}
+        error={hintError}
+        onRevealNextHint={(level) => {
+          trackEvent("reveal_hint", { level })
+          revealNextHint(level)
+        }}
+      />
+
+      <ShortcutsSheet open={showShortcuts} onOpenChange={setShowShortcuts} />
+
+      <ShareSheet
+        open={showShare}
+        onOpenChange={setShowShare}
+        text={buildShareText({
+          puzzleId,
+          guesses,
+          wordColors,
+          answer: customPuzzle?.categories,
+          hintsUsed: hints.length,
+          solveTimeMs: settings.showTimer && timer.finished ? timer.elapsedMs : undefined,
+          link: settings.shareIncludeLink && typeof window !== "undefined" ? window.location.origin : undefined,
+        })}
+        includeLink={settings.shareIncludeLink}
+        onIncludeLinkChange={(shareIncludeLink) => updateSettings({ shareIncludeLink })}
+        onShared={(method) => trackEvent("share_result", { method })}
+        boardLink={typeof window !== "undefined"
+          ? buildBoardLinkUrl(window.location.origin, encodeBoardLink(puzzleId, originalTiles, tiles, wordColors, oneAwayWords))
+          : ""}
+        onBoardLinkShared={(method) => trackEvent("share_board_link", { method })}
+        createImage={() => renderBoardImage({
+          tiles,
+          wordColors,
+          oneAwayWords,
+          palette,
+          title: puzzleId ? `Connections #${puzzleId}` : customPuzzle ? "Custom puzzle" : "Connections",
+          subtitle: puzzleDate ? formatDate(puzzleDate) : undefined,
+          showGlyphs: settings.showGlyphs,
+          imageMap,
+          puzzleDate,
+        })}
+        imageFileName={puzzleId ? `purple-hunter-${puzzleId}.png` : "purple-hunter-board.png"}
+        onImageExported={(method) => trackEvent("export_board_image", { method })}
+      />
+
+      {/* Saved progress indicator */}
+      {hasSavedProgress && (
+        <div className="flex items-center justify-center gap-2 mt-3 text-xs text-gray-500">
+          <span>Progress saved on this device</span>
+          <span>•</span>
+          <button
+            onClick={() => {
+              trackEvent("click_clear_progress")
+              clearSavedProgress()
+            }}
+            className="underline underline-offset-2 hover:text-gray-300 transition-colors"
+          >
+            Clear saved progress
+          </button>
+        </div>
+      )}
+
       {/* Info Bottom Sheet */}
       <Sheet open={showInfo} onOpenChange={setShowInfo}>
         <SheetContent side="bottom" className="bg-[#1e1e1e] border-gray-700 rounded-t-2xl">
@@ -794,11 +2035,17 @@ export function ConnectionsHelper() {
                   <p><span className="text-purple-400">Purple</span> is the sneaky one - puns, wordplay, misdirection.</p>
                 </div>
                 <p className="text-sm text-gray-400 border-t border-gray-700 pt-3">
-                  Tap colors to select, tap words to mark, and shuffle to spot new patterns. <span className="text-orange-400">Long-press a color</span> to mark it as "one away" - the indicator stays on those tiles to help you remember.
+                  Tap colors to select, tap words to mark, and shuffle to spot new patterns. <span className="text-orange-400">Long-press a color</span> to mark it as "one away" - the indicator stays on those tiles and the guess is logged. Played a group in the real game? Report the result under the grid to track your mistakes. Mis-tapped? <span className="text-orange-400">Undo</span> with the arrow buttons or Ctrl+Z.
                 </p>
                 <p className="text-sm text-gray-400 border-t border-gray-700 pt-3">
                   <span className="text-cyan-400">Drag tiles</span> anywhere on the screen to visually group words you think belong together. Hit Shuffle or Refresh to snap them back to the grid. Happy hunting!
                 </p>
+                <p className="text-sm text-gray-400 border-t border-gray-700 pt-3">
+                  <span className="text-pink-400">Tap the date</span> or use the arrows beside it to replay any past puzzle from the archive.
+                </p>
+                <p className="text-sm text-gray-400 border-t border-gray-700 pt-3">
+                  On a keyboard? Press <span className="text-white font-mono">?</span> to see the shortcuts.
+                </p>
               </div>
             </SheetDescription>
           </SheetHeader>
@@ -812,8 +2059,8 @@ export function ConnectionsHelper() {
           right: auto !important;
           transform: translateX(-50%) scale(0.85) !important;
           transform-origin: bottom center !important;
-          opacity: ${showInfo || showInstallModal ? 0 : 1} !important;
-          pointer-events: ${showInfo || showInstallModal ? "none" : "auto"} !important;
+          opacity: ${showInfo || showHints || showShare || showShortcuts || showSettings || showRoom || showImport || showAnalysis || showSolver || showLayouts || showInstallModal ? 0 : 1} !important;
+          pointer-events: ${showInfo || showHints || showShare || showShortcuts || showSettings || showRoom || showImport || showAnalysis || showSolver || showLayouts || showInstallModal ? "none" : "auto"} !important;
           transition: opacity 0.2s ease !important;
         }
       `}</style>
@@ -851,5 +2098,6 @@ export function ConnectionsHelper() {
       {/* Add to Home Screen Button - outside inner div for proper fixed positioning */}
       <AddToHomeScreen onModalChange={setShowInstallModal} />
     </div>
+    </PaletteProvider>
   )
 }
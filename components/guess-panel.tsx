@@ -0,0 +1,166 @@
+"use client"
+
+import { Check, X, KeyRound } from "lucide-react"
+import { cn } from "@/lib/utils"
+import type { CategoryColor } from "@/lib/categories"
+import { usePalette } from "@/components/palette-provider"
+import {
+  MAX_MISTAKES,
+  GUESS_RESULT_LABELS,
+  countMistakes,
+  getSolvedColors,
+  isGameOver,
+  isSameGroup,
+  type Guess,
+  type GuessResult,
+} from "@/lib/guesses"
+
+interface GuessPanelProps {
+  guesses: Guess[]
+  selectedColor: CategoryColor
+  selectedWords: string[] // Words currently marked with the selected color
+  onSubmit: (color: CategoryColor, result: GuessResult) => void
+  canCheck: boolean // An answer key exists for this puzzle
+  checkAnswers: boolean // User opted in to checking against it
+  isChecking: boolean
+  checkError: string | null
+  onCheck: (color: CategoryColor) => void
+  onCheckAnswersChange: (checkAnswers: boolean) => void
+}
+
+const RESULT_STYLES: Record<GuessResult, string> = {
+  correct: "bg-green-600 hover:bg-green-500",
+  "one-away": "bg-orange-600 hover:bg-orange-500",
+  wrong: "bg-red-700 hover:bg-red-600",
+}
+
+export function GuessPanel({
+  guesses,
+  selectedColor,
+  selectedWords,
+  onSubmit,
+  canCheck,
+  checkAnswers,
+  isChecking,
+  checkError,
+  onCheck,
+  onCheckAnswersChange,
+}: GuessPanelProps) {
+  const mistakes = countMistakes(guesses)
+  const solvedColors = getSolvedColors(guesses)
+  const gameOver = isGameOver(guesses)
+  const alreadyGuessed = guesses.some(g => isSameGroup(g.words, selectedWords))
+  const canSubmit = selectedWords.length === 4 && !alreadyGuessed && !gameOver
+    && !solvedColors.includes(selectedColor)
+  const palette = usePalette()
+  const colorConfig = palette[selectedColor]
+  const useAnswerKey = canCheck && checkAnswers
+
+  return (
+    <div className="mt-3 space-y-3">
+      {/* Submit the selected color's group, reporting what the real game said */}
+      {canSubmit && useAnswerKey && (
+        <button
+          onClick={() => onCheck(selectedColor)}
+          disabled={isChecking}
+          className="w-full h-10 rounded-lg text-sm font-semibold transition-opacity disabled:opacity-50"
+          style={{ backgroundColor: colorConfig.bg, color: colorConfig.text }}
+        >
+          {isChecking ? "Checking..." : <>Check <span className="capitalize">{selectedColor}</span> group</>}
+        </button>
+      )}
+      {canSubmit && !useAnswerKey && (
+        <div className="rounded-lg bg-[#1e1e1e] p-3">
+          <p className="text-xs text-gray-400 mb-2 text-center">
+            Submitted <span className="capitalize" style={{ color: colorConfig.bg }}>{selectedColor}</span> in the game? What happened?
+          </p>
+          <div className="flex gap-2">
+            {(Object.keys(GUESS_RESULT_LABELS) as GuessResult[]).map(result => (
+              <button
+                key={result}
+                onClick={() => onSubmit(selectedColor, result)}
+                className={cn(
+                  "flex-1 h-9 rounded-md text-sm font-medium text-white transition-colors",
+                  RESULT_STYLES[result]
+                )}
+              >
+                {GUESS_RESULT_LABELS[result]}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+      {selectedWords.length === 4 && alreadyGuessed && !gameOver && (
+        <p className="text-xs text-gray-500 text-center">You&apos;ve already guessed this group.</p>
+      )}
+      {checkError && (
+        <p className="text-xs text-red-300 text-center">{checkError}</p>
+      )}
+
+      {/* Mistakes remaining, like the real game */}
+      <div className="flex items-center justify-center gap-2 text-sm text-gray-400">
+        <span>Mistakes remaining:</span>
+        <div className="flex gap-1.5" aria-label={`${MAX_MISTAKES - mistakes} of ${MAX_MISTAKES} mistakes remaining`}>
+          {Array.from({ length: MAX_MISTAKES }, (_, i) => (
+            <span
+              key={i}
+              className={cn(
+                "w-3 h-3 rounded-full transition-colors",
+                i < MAX_MISTAKES - mistakes ? "bg-gray-300" : "bg-gray-700"
+              )}
+            />
+          ))}
+        </div>
+      </div>
+
+      {gameOver && (
+        <p className="text-sm text-center font-medium text-gray-300">
+          {solvedColors.length === 4 ? "Solved! Nice hunting." : "Out of mistakes - better luck tomorrow."}
+        </p>
+      )}
+
+      {/* Guess log */}
+      {guesses.length > 0 && (
+        <ol className="space-y-1.5">
+          {guesses.map((guess, index) => (
+            <li key={index} className="flex items-center gap-2 text-xs">
+              <span
+                className="w-3 h-3 rounded-sm flex-shrink-0"
+                style={{ backgroundColor: palette[guess.color].bg }}
+              />
+              <span className="flex-1 text-gray-300 truncate">
+                {guess.title && <span className="font-semibold text-white">{guess.title}: </span>}
+                {guess.words.join(", ")}
+              </span>
+              <span
+                className={cn(
+                  "flex items-center gap-1 font-medium",
+                  guess.result === "correct" && "text-green-400",
+                  guess.result === "one-away" && "text-orange-400",
+                  guess.result === "wrong" && "text-red-400"
+                )}
+              >
+                {guess.result === "correct" ? <Check className="w-3 h-3" /> : guess.result === "wrong" ? <X className="w-3 h-3" /> : null}
+                {GUESS_RESULT_LABELS[guess.result]}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {/* Opt-in answer key (when the answer is known: official or custom puzzles) */}
+      {canCheck && (
+        <label className="flex items-center justify-center gap-2 text-xs text-gray-500 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={checkAnswers}
+            onChange={(e) => onCheckAnswersChange(e.target.checked)}
+            className="accent-purple-500"
+          />
+          <KeyRound className="w-3 h-3" />
+          Check groups against the answer key
+        </label>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,82 @@
+"use client"
+
+import { Lightbulb, RefreshCw } from "lucide-react"
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetDescription,
+} from "@/components/ui/sheet"
+import { CATEGORY_ORDER } from "@/lib/categories"
+import { usePalette } from "@/components/palette-provider"
+import { HINT_TIERS, MAX_HINT_TIER, getHintTier, type HintRecord } from "@/lib/hints"
+
+interface HintSheetProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  hints: HintRecord[]
+  loadingLevel: number | null
+  error: string | null
+  onRevealNextHint: (level: number) => void
+}
+
+export function HintSheet({ open, onOpenChange, hints, loadingLevel, error, onRevealNextHint }: HintSheetProps) {
+  const palette = usePalette()
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="bg-[#1e1e1e] border-gray-700 rounded-t-2xl max-h-[85vh] overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="text-white">Hints</SheetTitle>
+          <SheetDescription className="text-gray-400">
+            Each tap reveals a little more. Hints you use are counted for this puzzle.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="px-4 pb-6 space-y-4">
+          {CATEGORY_ORDER.map((color, level) => {
+            const colorConfig = palette[color]
+            const tier = getHintTier(hints, level)
+            const nextTier = HINT_TIERS.find(t => t.tier === tier + 1)
+            const categoryHints = hints
+              .filter(h => h.level === level)
+              .sort((a, b) => a.tier - b.tier)
+
+            return (
+              <div key={color} className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: colorConfig.bg }} />
+                  <span className="text-sm font-semibold text-white">{colorConfig.label}</span>
+                  <span className="ml-auto text-xs text-gray-500">{tier}/{MAX_HINT_TIER}</span>
+                </div>
+
+                {categoryHints.map(hint => (
+                  <p key={hint.tier} className="text-sm text-gray-300 pl-5">{hint.text}</p>
+                ))}
+
+                {nextTier && (
+                  <button
+                    onClick={() => onRevealNextHint(level)}
+                    disabled={loadingLevel !== null}
+                    className="ml-5 h-8 px-3 rounded-md text-xs font-medium flex items-center gap-1.5 transition-opacity disabled:opacity-50"
+                    style={{ backgroundColor: colorConfig.bg, color: colorConfig.text }}
+                  >
+                    {loadingLevel === level
+                      ? <RefreshCw className="w-3 h-3 animate-spin" />
+                      : <Lightbulb className="w-3 h-3" />}
+                    {nextTier.label}
+                  </button>
+                )}
+              </div>
+            )
+          })}
+
+          {error && (
+            <p className="text-sm text-red-300 text-center">{error}</p>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,153 @@
+"use client"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import { FileUp, Download } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetDescription,
+} from "@/components/ui/sheet"
+import { usePalette } from "@/components/palette-provider"
+import { CATEGORY_ORDER } from "@/lib/categories"
+import { IMPORT_FORMAT_LABELS, parsePuzzleImport, type ImportedPuzzle } from "@/lib/puzzle-import"
+
+interface ImportSheetProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onImport: (puzzle: ImportedPuzzle) => void
+}
+
+export function ImportSheet({ open, onOpenChange, onImport }: ImportSheetProps) {
+  const palette = usePalette()
+  const [text, setText] = useState("")
+  const [fileError, setFileError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  // Start fresh each time the sheet opens
+  useEffect(() => {
+    if (open) {
+      setText("")
+      setFileError(null)
+    }
+  }, [open])
+
+  const result = useMemo(() => text.trim() ? parsePuzzleImport(text) : null, [text])
+  const puzzle = result && "puzzle" in result ? result.puzzle : null
+  const error = fileError ?? (result && "error" in result ? result.error : null)
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    try {
+      setText(await file.text())
+      setFileError(null)
+    } catch {
+      setFileError(`Couldn't read ${file.name}.`)
+    }
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="bg-[#1e1e1e] border-gray-700 rounded-t-2xl max-h-[85vh] overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="text-white">Import a Puzzle</SheetTitle>
+          <SheetDescription className="text-gray-400">
+            Paste puzzle JSON, a CSV with a category column, or a text list - the format is detected for you.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="px-4 pb-6 space-y-4">
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder={"Fish: BASS, SOLE, PIKE, CARP\n..."}
+            aria-label="Puzzle to import"
+            className="w-full h-40 bg-[#121212] border border-gray-700 rounded-lg p-3 text-sm text-white font-mono resize-none focus:outline-none focus:ring-2 focus:ring-white/30"
+          />
+
+          <div className="flex items-center justify-between">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center gap-1.5 text-sm text-gray-400 hover:text-white transition-colors"
+            >
+              <FileUp className="w-4 h-4" />
+              Choose a file
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,.csv,.tsv,.txt,application/json,text/csv,text/plain"
+              onChange={(e) => {
+                handleFile(e.target.files?.[0])
+                e.target.value = ""
+              }}
+              className="hidden"
+            />
+            {puzzle && (
+              <span className="text-xs text-gray-400">
+                {IMPORT_FORMAT_LABELS[puzzle.format]}
+                {puzzle.date && ` • ${puzzle.date}`}
+              </span>
+            )}
+          </div>
+
+          {/* Preview: the answer groups when the source has them, otherwise the grid */}
+          {puzzle?.categories ? (
+            <ul className="space-y-1.5">
+              {puzzle.categories.map(category => {
+                const colorConfig = palette[CATEGORY_ORDER[category.level]]
+                return (
+                  <li
+                    key={category.title}
+                    className="rounded-md px-3 py-2 text-center"
+                    style={{ backgroundColor: colorConfig.bg, color: colorConfig.text }}
+                  >
+                    <div className="text-xs font-bold uppercase">{category.title}</div>
+                    <div className="text-sm">{category.words.join(", ")}</div>
+                  </li>
+                )
+              })}
+            </ul>
+          ) : puzzle ? (
+            <>
+              <div className="grid grid-cols-4 gap-1.5">
+                {puzzle.words.map(word => (
+                  <div key={word} className="bg-[#2a2a2a] rounded-md px-1 py-2 text-xs font-semibold text-center truncate">
+                    {word}
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 text-center">
+                No categories, so groups can&apos;t be checked against an answer.
+              </p>
+            </>
+          ) : null}
+
+          {error && (
+            <p className="text-sm text-red-300 text-center">{error}</p>
+          )}
+
+          <div className="flex gap-3">
+            <Button
+              onClick={() => onOpenChange(false)}
+              variant="outline"
+              className="flex-1 h-12 border-white/30 text-white hover:bg-white/10 bg-transparent"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={() => puzzle && onImport(puzzle)}
+              disabled={!puzzle}
+              className="flex-1 h-12 bg-purple-600 hover:bg-purple-500 text-white disabled:opacity-50"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Load puzzle
+            </Button>
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,126 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Layers, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetDescription,
+} from "@/components/ui/sheet"
+import { isSameLayoutName, MAX_LAYOUT_NAME_LENGTH, type Layout } from "@/lib/layouts"
+import { cn } from "@/lib/utils"
+
+interface LayoutsSheetProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  layouts: Layout[]
+  activeName: string | null // The layout last opened or saved, if any
+  onSave: (name: string) => void
+  onOpen: (layout: Layout) => void
+  onDelete: (name: string) => void
+}
+
+export function LayoutsSheet({
+  open,
+  onOpenChange,
+  layouts,
+  activeName,
+  onSave,
+  onOpen,
+  onDelete,
+}: LayoutsSheetProps) {
+  const [name, setName] = useState("")
+
+  useEffect(() => {
+    if (open) setName(activeName ?? "")
+  }, [open, activeName])
+
+  const trimmed = name.trim()
+  const exists = layouts.some(layout => isSameLayoutName(layout.name, trimmed))
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="bg-[#1e1e1e] border-gray-700 rounded-t-2xl max-h-[85vh] overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="text-white">Layouts</SheetTitle>
+          <SheetDescription className="text-gray-400">
+            Save the board&apos;s tile order, positions and colors under a name, and switch between theories. Shuffle and Reset leave saved layouts alone.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="px-4 pb-6 space-y-4">
+          <form
+            onSubmit={(e) => {
+              e.preventDefault()
+              if (trimmed) onSave(trimmed)
+            }}
+            className="flex gap-2"
+          >
+            <input
+              type="text"
+              value={name}
+              maxLength={MAX_LAYOUT_NAME_LENGTH}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Theory A: sports"
+              aria-label="Layout name"
+              className="flex-1 min-w-0 bg-[#121212] border border-gray-700 rounded-lg px-3 py-2 text-white"
+            />
+            <Button
+              type="submit"
+              disabled={!trimmed}
+              className="h-10 bg-purple-600 hover:bg-purple-500 text-white disabled:opacity-50"
+            >
+              {exists ? "Update" : "Save"}
+            </Button>
+          </form>
+
+          {layouts.length === 0 ? (
+            <p className="text-sm text-gray-400 text-center">
+              No layouts yet. Arrange the board, name it and save.
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {layouts.map(layout => {
+                const isActive = activeName !== null && isSameLayoutName(layout.name, activeName)
+                return (
+                  <li
+                    key={layout.name}
+                    className={cn(
+                      "flex items-center gap-2 bg-[#121212] rounded-lg p-3",
+                      isActive && "ring-1 ring-purple-400"
+                    )}
+                  >
+                    <Layers className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm font-semibold text-white truncate">{layout.name}</div>
+                      <div className="text-xs text-gray-500">
+                        Saved {new Date(layout.savedAt).toLocaleString(undefined, { dateStyle: "short", timeStyle: "short" })}
+                      </div>
+                    </div>
+                    <Button
+                      variant="outline"
+                      onClick={() => onOpen(layout)}
+                      className="h-9 border-white/30 text-white hover:bg-white/10 bg-transparent"
+                    >
+                      Open
+                    </Button>
+                    <button
+                      onClick={() => onDelete(layout.name)}
+                      className="w-9 h-9 flex items-center justify-center rounded-full text-gray-400 hover:text-white hover:bg-white/10 transition-colors"
+                      aria-label={`Delete layout ${layout.name}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
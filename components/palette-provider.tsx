@@ -0,0 +1,19 @@
+"use client"
+
+import * as React from "react"
+import { PALETTES, type Palette, type PaletteId } from "@/lib/categories"
+
+const PaletteContext = React.createContext<Palette>(PALETTES.default.colors)
+
+// Supplies the chosen palette to every tile, button and sheet below it
+export function PaletteProvider({ palette, children }: { palette: PaletteId; children: React.ReactNode }) {
+  return (
+    <PaletteContext.Provider value={PALETTES[palette].colors}>
+      {children}
+    </PaletteContext.Provider>
+  )
+}
+
+export function usePalette(): Palette {
+  return React.useContext(PaletteContext)
+}
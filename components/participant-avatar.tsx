@@ -0,0 +1,16 @@
+import { cn } from "@/lib/utils"
+import type { Participant } from "@/lib/rooms/types"
+
+// Initial in the participant's room color
+export function ParticipantAvatar({ participant, className }: { participant: Participant; className?: string }) {
+  return (
+    <span
+      className={cn("w-7 h-7 rounded-full flex items-center justify-center text-xs font-bold text-black", className)}
+      style={{ backgroundColor: participant.color }}
+      title={participant.name}
+      aria-hidden="true"
+    >
+      {participant.name.charAt(0).toUpperCase()}
+    </span>
+  )
+}
@@ -0,0 +1,231 @@
+"use client"
+
+import { useState } from "react"
+import { Check, Link2, Play } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import { usePalette } from "@/components/palette-provider"
+import { CATEGORY_ORDER, type CategoryColor } from "@/lib/categories"
+import type { PuzzleCategory } from "@/lib/puzzle/types"
+import {
+  buildCustomPuzzleUrl,
+  categoriesToDrafts,
+  createEmptyDrafts,
+  decodeCustomPuzzle,
+  draftsToCategories,
+  encodeCustomPuzzle,
+  readCustomPuzzleHash,
+  validateDrafts,
+  type CategoryDraft,
+} from "@/lib/custom-puzzle"
+
+interface PuzzleBuilderProps {
+  initialCategories: PuzzleCategory[] | null // The custom puzzle on the board, to edit it
+  onPlay: (categories: PuzzleCategory[], code: string) => void
+  onCancel: () => void
+}
+
+export function PuzzleBuilder({ initialCategories, onPlay, onCancel }: PuzzleBuilderProps) {
+  const palette = usePalette()
+  const [drafts, setDrafts] = useState<CategoryDraft[]>(() =>
+    initialCategories ? categoriesToDrafts(initialCategories) : createEmptyDrafts()
+  )
+  // Errors only show once the author tries to play or share
+  const [showErrors, setShowErrors] = useState(false)
+  const [shareUrl, setShareUrl] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+  const [openCode, setOpenCode] = useState("")
+  const [openError, setOpenError] = useState<string | null>(null)
+
+  const errors = validateDrafts(drafts)
+
+  const updateDraft = (index: number, changes: Partial<CategoryDraft>) => {
+    setDrafts(prev => prev.map((draft, i) => i === index ? { ...draft, ...changes } : draft))
+    setShareUrl(null)
+  }
+
+  // Picking a color another category has swaps the two, so each color stays in use once
+  const pickColor = (index: number, color: CategoryColor) => {
+    setDrafts(prev => {
+      const current = prev[index].color
+      return prev.map((draft, i) => {
+        if (i === index) return { ...draft, color }
+        if (draft.color === color) return { ...draft, color: current }
+        return draft
+      })
+    })
+    setShareUrl(null)
+  }
+
+  const finish = (): { categories: PuzzleCategory[]; code: string } | null => {
+    setShowErrors(true)
+    if (errors.length > 0) return null
+    const categories = draftsToCategories(drafts)
+    return { categories, code: encodeCustomPuzzle(categories) }
+  }
+
+  const handleShare = async () => {
+    const puzzle = finish()
+    if (!puzzle) return
+    const url = buildCustomPuzzleUrl(window.location.origin, puzzle.code)
+    setShareUrl(url)
+
+    if (navigator.share) {
+      try {
+        await navigator.share({ text: "Can you solve my Connections puzzle?", url })
+        return
+      } catch (error) {
+        if (error instanceof DOMException && error.name === "AbortError") return
+      }
+    }
+    try {
+      await navigator.clipboard.writeText(url)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch {
+      // The link is shown below for copying by hand
+    }
+  }
+
+  // Accept either the bare code or a whole link
+  const handleOpenCode = () => {
+    const trimmed = openCode.trim()
+    const code = trimmed.includes("#") ? readCustomPuzzleHash(trimmed.slice(trimmed.indexOf("#"))) : trimmed
+    const categories = code ? decodeCustomPuzzle(code) : null
+    if (!code || !categories) {
+      setOpenError("That isn't a valid puzzle code.")
+      return
+    }
+    onPlay(categories, code)
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      {drafts.map((draft, index) => {
+        const colorConfig = palette[draft.color]
+        return (
+          <section
+            key={index}
+            className="rounded-lg p-3 space-y-2 border-l-4 bg-[#1e1e1e]"
+            style={{ borderLeftColor: colorConfig.bg }}
+            aria-label={`Category ${index + 1}`}
+          >
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={draft.title}
+                onChange={(e) => updateDraft(index, { title: e.target.value })}
+                placeholder={`Category ${index + 1} name`}
+                className="flex-1 min-w-0 bg-[#2a2a2a] rounded-md px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-white/30"
+              />
+              <div className="flex gap-1" role="radiogroup" aria-label="Difficulty">
+                {CATEGORY_ORDER.map(color => (
+                  <button
+                    key={color}
+                    type="button"
+                    role="radio"
+                    aria-checked={draft.color === color}
+                    aria-label={palette[color].label}
+                    onClick={() => pickColor(index, color)}
+                    className={cn(
+                      "w-6 h-6 rounded-md transition-transform",
+                      draft.color === color ? "ring-2 ring-white scale-110" : "opacity-50 hover:opacity-100"
+                    )}
+                    style={{ backgroundColor: palette[color].bg }}
+                  />
+                ))}
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {draft.words.map((word, wordIndex) => (
+                <input
+                  key={wordIndex}
+                  type="text"
+                  value={word}
+                  onChange={(e) => updateDraft(index, {
+                    words: draft.words.map((w, i) => i === wordIndex ? e.target.value : w),
+                  })}
+                  placeholder={`Word ${wordIndex + 1}`}
+                  aria-label={`Category ${index + 1}, word ${wordIndex + 1}`}
+                  className="bg-[#2a2a2a] rounded-md px-3 py-2 text-sm text-white uppercase focus:outline-none focus:ring-2 focus:ring-white/30"
+                />
+              ))}
+            </div>
+          </section>
+        )
+      })}
+
+      {showErrors && errors.length > 0 && (
+        <div className="bg-red-900/30 border border-red-700/50 rounded-lg p-3">
+          <ul className="text-sm text-red-300 space-y-1">
+            {errors.map(error => <li key={error}>{error}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {shareUrl && (
+        <p className="text-xs text-gray-500 break-all select-all">{shareUrl}</p>
+      )}
+
+      <div className="flex gap-3">
+        <Button
+          onClick={onCancel}
+          variant="outline"
+          className="flex-1 h-12 border-white/30 text-white hover:bg-white/10 bg-transparent"
+        >
+          Cancel
+        </Button>
+        <Button
+          onClick={handleShare}
+          variant="outline"
+          className="flex-1 h-12 border-white/30 text-white hover:bg-white/10 bg-transparent"
+        >
+          {copied ? <Check className="w-4 h-4 mr-2" /> : <Link2 className="w-4 h-4 mr-2" />}
+          {copied ? "Copied!" : "Share"}
+        </Button>
+        <Button
+          onClick={() => {
+            const puzzle = finish()
+            if (puzzle) onPlay(puzzle.categories, puzzle.code)
+          }}
+          className="flex-1 h-12 bg-white text-black hover:bg-gray-200"
+        >
+          <Play className="w-4 h-4 mr-2" />
+          Play
+        </Button>
+      </div>
+
+      {/* Someone else's puzzle */}
+      <form
+        onSubmit={(e) => {
+          e.preventDefault()
+          handleOpenCode()
+        }}
+        className="flex gap-2"
+      >
+        <input
+          type="text"
+          value={openCode}
+          onChange={(e) => {
+            setOpenCode(e.target.value)
+            setOpenError(null)
+          }}
+          placeholder="Have a puzzle code or link?"
+          aria-label="Puzzle code or link"
+          className="flex-1 min-w-0 bg-[#2a2a2a] rounded-md px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-white/30"
+        />
+        <Button
+          type="submit"
+          variant="outline"
+          disabled={!openCode.trim()}
+          className="h-10 border-white/30 text-white hover:bg-white/10 bg-transparent disabled:opacity-50"
+        >
+          Open
+        </Button>
+      </form>
+      {openError && (
+        <p className="text-sm text-red-300">{openError}</p>
+      )}
+    </div>
+  )
+}
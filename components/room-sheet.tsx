@@ -0,0 +1,189 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Users, Link2, Check, LogOut, RefreshCw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetDescription,
+} from "@/components/ui/sheet"
+import { ParticipantAvatar } from "@/components/participant-avatar"
+import type { RoomStatus } from "@/hooks/use-room"
+import type { Participant } from "@/lib/rooms/types"
+
+interface RoomSheetProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  roomId: string | null
+  status: RoomStatus
+  participants: Participant[]
+  participantId: string
+  name: string
+  onNameChange: (name: string) => void
+  isCreating: boolean
+  error: string | null
+  onCreate: () => void
+  onJoin: (code: string) => void
+  onLeave: () => void
+}
+
+export function RoomSheet({
+  open,
+  onOpenChange,
+  roomId,
+  status,
+  participants,
+  participantId,
+  name,
+  onNameChange,
+  isCreating,
+  error,
+  onCreate,
+  onJoin,
+  onLeave,
+}: RoomSheetProps) {
+  const [joinCode, setJoinCode] = useState("")
+  const [copied, setCopied] = useState(false)
+  const [draftName, setDraftName] = useState(name)
+
+  useEffect(() => {
+    if (open) setDraftName(name)
+  }, [open, name])
+
+  const roomUrl = roomId && typeof window !== "undefined"
+    ? `${window.location.origin}/?room=${roomId}`
+    : ""
+
+  const handleInvite = async () => {
+    if (navigator.share) {
+      try {
+        await navigator.share({ text: "Solve today's Connections with me on Purple Hunter", url: roomUrl })
+        return
+      } catch (error) {
+        if (error instanceof DOMException && error.name === "AbortError") return
+      }
+    }
+    try {
+      await navigator.clipboard.writeText(roomUrl)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch {
+      // The link is shown below for copying by hand
+    }
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="bg-[#1e1e1e] border-gray-700 rounded-t-2xl max-h-[85vh] overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="text-white">Solve Together</SheetTitle>
+          <SheetDescription className="text-gray-400">
+            Everyone in a room shares colors, one-away marks and tile order as they change.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="px-4 pb-6 space-y-4">
+          <label className="block text-sm text-gray-300">
+            <span className="block text-white font-semibold mb-1">Your name</span>
+            <input
+              type="text"
+              value={draftName}
+              maxLength={24}
+              onChange={(e) => setDraftName(e.target.value)}
+              onBlur={() => onNameChange(draftName.trim())}
+              placeholder="Guest"
+              className="w-full bg-[#121212] border border-gray-700 rounded-lg px-3 py-2 text-white"
+            />
+          </label>
+
+          {roomId ? (
+            <>
+              <div className="flex items-center justify-between">
+                <div>
+                  <div className="text-xs text-gray-400">Room code</div>
+                  <div className="text-2xl font-bold tracking-widest">{roomId}</div>
+                </div>
+                {status === "connecting" && (
+                  <span className="flex items-center gap-1 text-xs text-gray-400">
+                    <RefreshCw className="w-3 h-3 animate-spin" />
+                    Connecting
+                  </span>
+                )}
+              </div>
+
+              <ul className="space-y-2">
+                {participants.map(participant => (
+                  <li key={participant.id} className="flex items-center gap-2 text-sm text-gray-300">
+                    <ParticipantAvatar participant={participant} />
+                    {participant.name}
+                    {participant.id === participantId && <span className="text-gray-500">(you)</span>}
+                  </li>
+                ))}
+              </ul>
+
+              <Button
+                onClick={handleInvite}
+                className="w-full h-12 bg-purple-600 hover:bg-purple-500 text-white"
+              >
+                {copied ? <Check className="w-4 h-4 mr-2" /> : <Link2 className="w-4 h-4 mr-2" />}
+                {copied ? "Link copied!" : "Invite"}
+              </Button>
+              <p className="text-xs text-gray-500 break-all select-all">{roomUrl}</p>
+
+              <button
+                onClick={onLeave}
+                className="flex items-center gap-1.5 text-sm text-gray-400 hover:text-white transition-colors"
+              >
+                <LogOut className="w-4 h-4" />
+                Leave room
+              </button>
+            </>
+          ) : (
+            <>
+              <Button
+                onClick={onCreate}
+                disabled={isCreating}
+                className="w-full h-12 bg-purple-600 hover:bg-purple-500 text-white disabled:opacity-50"
+              >
+                {isCreating ? <RefreshCw className="w-4 h-4 mr-2 animate-spin" /> : <Users className="w-4 h-4 mr-2" />}
+                Start a room with this board
+              </Button>
+
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault()
+                  if (joinCode.trim()) onJoin(joinCode.trim().toUpperCase())
+                }}
+                className="flex gap-2"
+              >
+                <input
+                  type="text"
+                  value={joinCode}
+                  onChange={(e) => setJoinCode(e.target.value)}
+                  placeholder="Room code"
+                  aria-label="Room code"
+                  className="flex-1 bg-[#121212] border border-gray-700 rounded-lg px-3 py-2 text-white uppercase tracking-widest"
+                />
+                <Button
+                  type="submit"
+                  variant="outline"
+                  disabled={!joinCode.trim()}
+                  className="h-10 border-white/30 text-white hover:bg-white/10 bg-transparent disabled:opacity-50"
+                >
+                  Join
+                </Button>
+              </form>
+            </>
+          )}
+
+          {error && (
+            <p className="text-sm text-red-300 text-center">{error}</p>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,17 @@
+"use client"
+
+import { useEffect } from "react"
+
+// Registers /sw.js so the installed app keeps working offline. Skipped in
+// development, where cached chunks would fight with hot reloading.
+export function ServiceWorker() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return
+
+    navigator.serviceWorker.register("/sw.js").catch((error) => {
+      console.error("Service worker registration failed:", error)
+    })
+  }, [])
+
+  return null
+}
@@ -0,0 +1,206 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { cn } from "@/lib/utils"
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetDescription,
+} from "@/components/ui/sheet"
+import { CategoryGlyph } from "@/components/category-glyph"
+import { CATEGORY_ORDER, PALETTES, type PaletteId } from "@/lib/categories"
+import type { Settings } from "@/lib/settings"
+import { getPushCapabilities, updateNotifications } from "@/lib/notifications"
+
+interface SettingsSheetProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  settings: Settings
+  onSettingsChange: (changes: Partial<Settings>) => void
+}
+
+// Suggested when the reminder is first switched on
+const DEFAULT_REMINDER_TIME = "18:00"
+
+export function SettingsSheet({ open, onOpenChange, settings, onSettingsChange }: SettingsSheetProps) {
+  const [isUpdatingNotifications, setIsUpdatingNotifications] = useState(false)
+  const [notificationError, setNotificationError] = useState<string | null>(null)
+  // Only offered when the server's job runs often enough to send them on time
+  const [canRemind, setCanRemind] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    let cancelled = false
+    getPushCapabilities().then(({ reminders }) => {
+      if (!cancelled) setCanRemind(reminders)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [open])
+
+  // The server has to agree (and the browser grant permission) before the setting changes
+  const changeNotifications = async (changes: Pick<Settings, "notifyNewPuzzle" | "reminderTime">) => {
+    setIsUpdatingNotifications(true)
+    setNotificationError(null)
+    try {
+      await updateNotifications({
+        newPuzzle: changes.notifyNewPuzzle,
+        reminderTime: changes.reminderTime || null,
+      })
+      onSettingsChange(changes)
+    } catch (error) {
+      console.error("Error updating notifications:", error)
+      setNotificationError(error instanceof Error ? error.message : "Could not update notifications.")
+    } finally {
+      setIsUpdatingNotifications(false)
+    }
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="bg-[#1e1e1e] border-gray-700 rounded-t-2xl max-h-[85vh] overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="text-white">Settings</SheetTitle>
+          <SheetDescription className="text-gray-400">
+            Saved on this device.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="px-4 pb-6 space-y-5">
+          {/* Palette */}
+          <fieldset className="space-y-2">
+            <legend className="text-sm font-semibold text-white mb-2">Colors</legend>
+            {(Object.keys(PALETTES) as PaletteId[]).map(id => (
+              <label
+                key={id}
+                className={cn(
+                  "flex items-center gap-3 rounded-lg p-2 cursor-pointer border",
+                  settings.palette === id ? "border-white/60 bg-white/5" : "border-transparent hover:bg-white/5"
+                )}
+              >
+                <input
+                  type="radio"
+                  name="palette"
+                  value={id}
+                  checked={settings.palette === id}
+                  onChange={() => onSettingsChange({ palette: id })}
+                  className="accent-purple-500"
+                />
+                <span className="flex gap-1">
+                  {CATEGORY_ORDER.map(color => (
+                    <span
+                      key={color}
+                      className="w-5 h-5 rounded flex items-center justify-center"
+                      style={{ backgroundColor: PALETTES[id].colors[color].bg, color: PALETTES[id].colors[color].text }}
+                    >
+                      {settings.showGlyphs && <CategoryGlyph color={color} className="w-2.5 h-2.5" />}
+                    </span>
+                  ))}
+                </span>
+                <span className="text-sm text-gray-300">{PALETTES[id].name}</span>
+              </label>
+            ))}
+          </fieldset>
+
+          <label className="flex items-center justify-between gap-3 text-sm text-gray-300 cursor-pointer">
+            <span>
+              <span className="block text-white font-semibold">Group shapes</span>
+              Mark each color with its own shape, so groups don&apos;t rely on color alone
+            </span>
+            <input
+              type="checkbox"
+              checked={settings.showGlyphs}
+              onChange={(e) => onSettingsChange({ showGlyphs: e.target.checked })}
+              className="accent-purple-500 w-4 h-4 flex-shrink-0"
+            />
+          </label>
+
+          <label className="flex items-center justify-between gap-3 text-sm text-gray-300 cursor-pointer">
+            <span>
+              <span className="block text-white font-semibold">Red herring marks</span>
+              Flag words that fit more than one possible group (from Analyze)
+            </span>
+            <input
+              type="checkbox"
+              checked={settings.showRedHerrings}
+              onChange={(e) => onSettingsChange({ showRedHerrings: e.target.checked })}
+              className="accent-purple-500 w-4 h-4 flex-shrink-0"
+            />
+          </label>
+
+          <label className="flex items-center justify-between gap-3 text-sm text-gray-300 cursor-pointer">
+            <span>
+              <span className="block text-white font-semibold">Solve timer</span>
+              Time each puzzle (paused while the app is in the background) and add it to shared results
+            </span>
+            <input
+              type="checkbox"
+              checked={settings.showTimer}
+              onChange={(e) => onSettingsChange({ showTimer: e.target.checked })}
+              className="accent-purple-500 w-4 h-4 flex-shrink-0"
+            />
+          </label>
+
+          {/* Notifications */}
+          <fieldset className="space-y-3" disabled={isUpdatingNotifications}>
+            <legend className="text-sm font-semibold text-white mb-2">Notifications</legend>
+            <label className="flex items-center justify-between gap-3 text-sm text-gray-300 cursor-pointer">
+              <span>New puzzle each day at midnight ET</span>
+              <input
+                type="checkbox"
+                checked={settings.notifyNewPuzzle}
+                onChange={(e) => changeNotifications({
+                  notifyNewPuzzle: e.target.checked,
+                  // A reminder saved before this server stopped offering them is dropped
+                  reminderTime: canRemind ? settings.reminderTime : "",
+                })}
+                className="accent-purple-500 w-4 h-4 flex-shrink-0"
+              />
+            </label>
+            {canRemind ? (
+              <div className="flex items-center justify-between gap-3 text-sm text-gray-300">
+                <label htmlFor="reminder-enabled" className="cursor-pointer">
+                  Remind me if I haven&apos;t played by
+                </label>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="time"
+                    value={settings.reminderTime || DEFAULT_REMINDER_TIME}
+                    onChange={(e) => {
+                      if (e.target.value && settings.reminderTime) {
+                        changeNotifications({ notifyNewPuzzle: settings.notifyNewPuzzle, reminderTime: e.target.value })
+                      }
+                    }}
+                    disabled={!settings.reminderTime}
+                    className="bg-[#121212] border border-gray-700 rounded px-2 py-1 text-white disabled:opacity-50"
+                    aria-label="Reminder time"
+                  />
+                  <input
+                    id="reminder-enabled"
+                    type="checkbox"
+                    checked={settings.reminderTime !== ""}
+                    onChange={(e) => changeNotifications({
+                      notifyNewPuzzle: settings.notifyNewPuzzle,
+                      reminderTime: e.target.checked ? DEFAULT_REMINDER_TIME : "",
+                    })}
+                    className="accent-purple-500 w-4 h-4 flex-shrink-0"
+                  />
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">
+                Reminders at a time you pick aren&apos;t available on this server.
+              </p>
+            )}
+            {notificationError && (
+              <p className="text-sm text-red-300">{notificationError}</p>
+            )}
+          </fieldset>
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
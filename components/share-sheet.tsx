@@ -0,0 +1,167 @@
+"use client"
+
+import { useState } from "react"
+import { Share2, Check, Link2, ImageDown, RefreshCw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetDescription,
+} from "@/components/ui/sheet"
+
+interface ShareSheetProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  text: string
+  includeLink: boolean
+  onIncludeLinkChange: (includeLink: boolean) => void
+  onShared?: (method: "share" | "clipboard") => void
+  boardLink: string // Opens this exact board (see lib/board-link)
+  onBoardLinkShared?: (method: "share" | "clipboard") => void
+  createImage: () => Promise<Blob> // The board as a PNG (see lib/board-image)
+  imageFileName: string
+  onImageExported?: (method: "share" | "download") => void
+}
+
+type ShareTarget = "result" | "board"
+
+export function ShareSheet({
+  open,
+  onOpenChange,
+  text,
+  includeLink,
+  onIncludeLinkChange,
+  onShared,
+  boardLink,
+  onBoardLinkShared,
+  createImage,
+  imageFileName,
+  onImageExported,
+}: ShareSheetProps) {
+  const [copied, setCopied] = useState<ShareTarget | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isExporting, setIsExporting] = useState(false)
+
+  // Native share sheet where available (mostly mobile), clipboard everywhere else
+  const handleShare = async (target: ShareTarget) => {
+    setError(null)
+    const data = target === "result" ? { text } : { url: boardLink }
+    const onDone = target === "result" ? onShared : onBoardLinkShared
+
+    if (navigator.share) {
+      try {
+        await navigator.share(data)
+        onDone?.("share")
+        return
+      } catch (error) {
+        // User closed the share sheet - nothing to do
+        if (error instanceof DOMException && error.name === "AbortError") return
+      }
+    }
+
+    try {
+      await navigator.clipboard.writeText(target === "result" ? text : boardLink)
+      onDone?.("clipboard")
+      setCopied(target)
+      setTimeout(() => setCopied(null), 2000)
+    } catch {
+      setError(target === "result"
+        ? "Couldn't copy automatically - select the text above and copy it."
+        : "Couldn't copy the board link automatically.")
+    }
+  }
+
+  // Share the PNG where files can be shared (mostly mobile), otherwise download it
+  const handleExportImage = async () => {
+    setError(null)
+    setIsExporting(true)
+    try {
+      const file = new File([await createImage()], imageFileName, { type: "image/png" })
+
+      if (navigator.canShare?.({ files: [file] })) {
+        try {
+          await navigator.share({ files: [file] })
+          onImageExported?.("share")
+          return
+        } catch (error) {
+          if (error instanceof DOMException && error.name === "AbortError") return
+        }
+      }
+
+      const url = URL.createObjectURL(file)
+      const link = document.createElement("a")
+      link.href = url
+      link.download = imageFileName
+      link.click()
+      setTimeout(() => URL.revokeObjectURL(url), 1000)
+      onImageExported?.("download")
+    } catch {
+      setError("Couldn't create the image.")
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="bg-[#1e1e1e] border-gray-700 rounded-t-2xl">
+        <SheetHeader>
+          <SheetTitle className="text-white">Share Result</SheetTitle>
+          <SheetDescription className="text-gray-400">
+            The classic colored-square grid, ready to paste anywhere.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="px-4 pb-6 space-y-3">
+          <pre className="bg-[#121212] rounded-lg p-4 text-sm text-white whitespace-pre-wrap font-sans select-all">
+            {text}
+          </pre>
+
+          <label className="flex items-center gap-2 text-sm text-gray-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={includeLink}
+              onChange={(e) => onIncludeLinkChange(e.target.checked)}
+              className="accent-purple-500"
+            />
+            Include a link to Purple Hunter
+          </label>
+
+          <Button
+            onClick={() => handleShare("result")}
+            className="w-full h-12 bg-purple-600 hover:bg-purple-500 text-white"
+          >
+            {copied === "result" ? <Check className="w-4 h-4 mr-2" /> : <Share2 className="w-4 h-4 mr-2" />}
+            {copied === "result" ? "Copied!" : "Share"}
+          </Button>
+
+          {/* The board itself, for a teammate to pick up where you are */}
+          <Button
+            onClick={() => handleShare("board")}
+            variant="outline"
+            className="w-full h-12 border-white/30 text-white hover:bg-white/10 bg-transparent"
+          >
+            {copied === "board" ? <Check className="w-4 h-4 mr-2" /> : <Link2 className="w-4 h-4 mr-2" />}
+            {copied === "board" ? "Board link copied!" : "Share this board"}
+          </Button>
+
+          <Button
+            onClick={handleExportImage}
+            disabled={isExporting}
+            variant="outline"
+            className="w-full h-12 border-white/30 text-white hover:bg-white/10 bg-transparent disabled:opacity-50"
+          >
+            {isExporting ? <RefreshCw className="w-4 h-4 mr-2 animate-spin" /> : <ImageDown className="w-4 h-4 mr-2" />}
+            Save board as image
+          </Button>
+
+          {error && (
+            <p className="text-sm text-red-300 text-center">{error}</p>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
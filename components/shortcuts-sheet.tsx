@@ -0,0 +1,61 @@
+"use client"
+
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetDescription,
+} from "@/components/ui/sheet"
+
+const KEYBOARD_SHORTCUTS: { keys: string[]; description: string }[] = [
+  { keys: ["←", "↑", "→", "↓"], description: "Move around the grid" },
+  { keys: ["1", "2", "3", "4"], description: "Pick yellow, green, blue or purple" },
+  { keys: ["Space", "Enter"], description: "Color the highlighted tile" },
+  { keys: ["O"], description: "Toggle one away for the selected color" },
+  { keys: ["P"], description: "Switch between ink and pencil marks" },
+  { keys: ["S"], description: "Shuffle" },
+  { keys: ["R"], description: "Reset the board" },
+  { keys: ["Ctrl+Z"], description: "Undo" },
+  { keys: ["Ctrl+Shift+Z"], description: "Redo" },
+  { keys: ["Esc"], description: "Leave the grid" },
+  { keys: ["?"], description: "Show this list" },
+]
+
+interface ShortcutsSheetProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function ShortcutsSheet({ open, onOpenChange }: ShortcutsSheetProps) {
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="bg-[#1e1e1e] border-gray-700 rounded-t-2xl">
+        <SheetHeader>
+          <SheetTitle className="text-white">Keyboard Shortcuts</SheetTitle>
+          <SheetDescription className="text-gray-400">
+            Play the whole board without touching the mouse.
+          </SheetDescription>
+        </SheetHeader>
+
+        <dl className="px-4 pb-6 space-y-2">
+          {KEYBOARD_SHORTCUTS.map(({ keys, description }) => (
+            <div key={description} className="flex items-center justify-between gap-4 text-sm">
+              <dt className="flex gap-1">
+                {keys.map(key => (
+                  <kbd
+                    key={key}
+                    className="min-w-6 px-1.5 py-0.5 rounded border border-gray-600 bg-[#2a2a2a] text-xs text-white text-center font-mono"
+                  >
+                    {key}
+                  </kbd>
+                ))}
+              </dt>
+              <dd className="text-gray-300 text-right">{description}</dd>
+            </div>
+          ))}
+        </dl>
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,36 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Timer } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { formatDuration, type TimerState } from "@/lib/timer"
+
+interface SolveTimerProps {
+  timer: TimerState
+  runningSince: number | null
+}
+
+// Ticks on its own so the board doesn't re-render every second
+export function SolveTimer({ timer, runningSince }: SolveTimerProps) {
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    if (runningSince === null) return
+    setNow(Date.now())
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [runningSince])
+
+  const elapsedMs = timer.elapsedMs + (runningSince !== null ? Math.max(0, now - runningSince) : 0)
+
+  return (
+    <span
+      role="timer"
+      className={cn("flex items-center gap-1 pl-1 tabular-nums", timer.finished && "text-white")}
+      aria-label={`${timer.finished ? "Solved in" : "Time"} ${formatDuration(elapsedMs)}`}
+    >
+      <Timer className="w-3.5 h-3.5" />
+      {formatDuration(elapsedMs)}
+    </span>
+  )
+}
@@ -0,0 +1,107 @@
+"use client"
+
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetDescription,
+} from "@/components/ui/sheet"
+import type { SolverResult } from "@/lib/solver"
+
+interface SolverSheetProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  result: SolverResult | null // Null while closed - solving only runs when the sheet is open
+  hasGuesses: boolean
+}
+
+const percent = (share: number) => share >= 0.995 ? "100%" : share < 0.005 ? "<1%" : `${Math.round(share * 100)}%`
+
+function WordChips({ words }: { words: string[] }) {
+  return (
+    <ul className="flex flex-wrap gap-1.5">
+      {words.map(word => (
+        <li key={word} className="bg-[#2a2a2a] rounded-md px-2 py-1 text-xs font-semibold text-white">
+          {word}
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+export function SolverSheet({ open, onOpenChange, result, hasGuesses }: SolverSheetProps) {
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="bg-[#1e1e1e] border-gray-700 rounded-t-2xl max-h-[85vh] overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="text-white">Solver</SheetTitle>
+          <SheetDescription className="text-gray-400">
+            Works out which groupings still fit your guess log - correct, one away and wrong. It only uses those results, not what the words mean.
+          </SheetDescription>
+        </SheetHeader>
+
+        {result && (
+          <div className="px-4 pb-6 space-y-4">
+            {result.total === 0 ? (
+              <p className="text-sm text-red-300">
+                No grouping fits every result in the guess log. Check the results you entered - undo can take one back.
+              </p>
+            ) : (
+              <p className="text-sm text-gray-400">
+                <span className="text-2xl font-bold text-white block">{result.total.toLocaleString()}</span>
+                {result.total === 1 ? "way" : "ways"} to group the {result.remainingWords.length} remaining words
+              </p>
+            )}
+
+            {result.total > 0 && !hasGuesses && (
+              <p className="text-xs text-gray-500">
+                Log some guesses first - with no results, every grouping is equally likely.
+              </p>
+            )}
+
+            {/* Best next guess */}
+            {result.suggestion && result.total > 1 && (
+              <section className="bg-[#121212] rounded-lg p-3 space-y-2">
+                <h3 className="text-sm font-semibold text-white">Most informative next guess</h3>
+                <WordChips words={result.suggestion.words} />
+                <p className="text-xs text-gray-400">
+                  Right in {percent(result.suggestion.correct)} of the remaining groupings,
+                  one away in {percent(result.suggestion.oneAway)}. Whatever the result, it rules out the most.
+                </p>
+              </section>
+            )}
+
+            {/* Few enough left to show them all */}
+            {result.solutions && result.total > 0 && (
+              <section className="space-y-2">
+                <h3 className="text-sm font-semibold text-white">
+                  {result.total === 1 ? "The only grouping left" : "Every grouping left"}
+                </h3>
+                {result.solutions.map((solution, i) => (
+                  <div key={i} className="bg-[#121212] rounded-lg p-3 space-y-1.5">
+                    {solution.map(group => <WordChips key={group.join(",")} words={group} />)}
+                  </div>
+                ))}
+              </section>
+            )}
+
+            {!result.solutions && hasGuesses && result.likelyGroups.length > 0 && (
+              <section className="space-y-2">
+                <h3 className="text-sm font-semibold text-white">Most common groups</h3>
+                <ul className="space-y-1.5">
+                  {result.likelyGroups.map(group => (
+                    <li key={group.words.join(",")} className="flex items-center gap-2">
+                      <WordChips words={group.words} />
+                      <span className="ml-auto text-xs text-gray-400">{percent(group.share)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
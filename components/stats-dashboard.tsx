@@ -0,0 +1,190 @@
+"use client"
+
+import { useState, useEffect, useRef } from "react"
+import Link from "next/link"
+import { ArrowLeft, Download, Upload } from "lucide-react"
+import { Bar, BarChart, Cell, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+import { Button } from "@/components/ui/button"
+import { useSettings } from "@/hooks/use-settings"
+import { CATEGORY_ORDER, PALETTES } from "@/lib/categories"
+import { MAX_MISTAKES } from "@/lib/guesses"
+import { getTodayET } from "@/lib/puzzle-dates"
+import {
+  loadStats,
+  saveStats,
+  summarizeStats,
+  exportStats,
+  importStats,
+  type PuzzleResult,
+} from "@/lib/stats"
+
+function StatTile({ value, label }: { value: string | number; label: string }) {
+  return (
+    <div className="bg-[#1e1e1e] rounded-lg p-3 text-center">
+      <div className="text-2xl font-bold">{value}</div>
+      <div className="text-xs text-gray-400">{label}</div>
+    </div>
+  )
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`
+
+export function StatsDashboard() {
+  const [results, setResults] = useState<PuzzleResult[]>([])
+  const [importError, setImportError] = useState<string | null>(null)
+  const [settings] = useSettings()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const palette = PALETTES[settings.palette].colors
+
+  useEffect(() => {
+    setResults(loadStats())
+  }, [])
+
+  const summary = summarizeStats(results, getTodayET())
+
+  // How many puzzles ended with each mistake count
+  const mistakeData = Array.from({ length: MAX_MISTAKES + 1 }, (_, mistakes) => ({
+    mistakes: String(mistakes),
+    puzzles: results.filter(r => r.mistakes === mistakes).length,
+  }))
+
+  // Which color got solved first, across wins
+  const firstSolvedData = CATEGORY_ORDER.map(color => ({
+    color,
+    name: color[0].toUpperCase() + color.slice(1),
+    puzzles: results.filter(r => r.won && r.solveOrder[0] === color).length,
+  }))
+
+  const handleExport = () => {
+    const blob = new Blob([exportStats(results)], { type: "application/json" })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = `purple-hunter-stats-${getTodayET()}.json`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleImport = async (file: File) => {
+    setImportError(null)
+    try {
+      const merged = importStats(results, await file.text())
+      saveStats(merged)
+      setResults(merged)
+    } catch (error) {
+      setImportError(error instanceof SyntaxError
+        ? "That file isn't valid JSON."
+        : error instanceof Error ? error.message : "Could not import that file.")
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-[#121212] text-white p-4 flex flex-col items-center">
+      <div className="w-full max-w-md flex flex-col gap-4">
+        {/* Header */}
+        <div className="flex items-center">
+          <Link
+            href="/"
+            className="w-10 h-10 flex items-center justify-center rounded-full hover:bg-white/10 transition-colors"
+            aria-label="Back to puzzle"
+          >
+            <ArrowLeft className="w-5 h-5 text-gray-400" />
+          </Link>
+          <h1 className="text-xl font-bold text-center flex-1">Your Stats</h1>
+          <div className="w-10" />
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+          <StatTile value={summary.played} label="Played" />
+          <StatTile value={percent(summary.winRate)} label="Win rate" />
+          <StatTile value={summary.averageMistakes.toFixed(1)} label="Avg. mistakes" />
+          <StatTile value={summary.currentStreak} label="Current streak" />
+          <StatTile value={summary.maxStreak} label="Max streak" />
+          <StatTile value={percent(summary.purpleFirstRate)} label="Purple first" />
+        </div>
+
+        {results.length === 0 ? (
+          <p className="text-sm text-gray-400 text-center py-6">
+            Finish a puzzle (log four correct groups, or run out of mistakes) to start your stats.
+          </p>
+        ) : (
+          <>
+            <section className="bg-[#1e1e1e] rounded-lg p-3">
+              <h2 className="text-sm font-semibold mb-2">Mistakes per puzzle</h2>
+              <div className="h-40">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={mistakeData}>
+                    <XAxis dataKey="mistakes" stroke="#9ca3af" fontSize={12} tickLine={false} />
+                    <YAxis allowDecimals={false} stroke="#9ca3af" fontSize={12} tickLine={false} width={24} />
+                    <Tooltip
+                      cursor={{ fill: "rgba(255,255,255,0.05)" }}
+                      contentStyle={{ background: "#2a2a2a", border: "none", borderRadius: 8 }}
+                      labelFormatter={(mistakes) => `${mistakes} mistakes`}
+                    />
+                    <Bar dataKey="puzzles" fill="#9c4dcc" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </section>
+
+            <section className="bg-[#1e1e1e] rounded-lg p-3">
+              <h2 className="text-sm font-semibold mb-2">First group found</h2>
+              <div className="h-40">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={firstSolvedData}>
+                    <XAxis dataKey="name" stroke="#9ca3af" fontSize={12} tickLine={false} />
+                    <YAxis allowDecimals={false} stroke="#9ca3af" fontSize={12} tickLine={false} width={24} />
+                    <Tooltip
+                      cursor={{ fill: "rgba(255,255,255,0.05)" }}
+                      contentStyle={{ background: "#2a2a2a", border: "none", borderRadius: 8 }}
+                    />
+                    <Bar dataKey="puzzles" radius={[4, 4, 0, 0]}>
+                      {firstSolvedData.map(entry => (
+                        <Cell key={entry.color} fill={palette[entry.color].bg} />
+                      ))}
+                    </Bar>
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </section>
+          </>
+        )}
+
+        {/* Move stats between devices */}
+        <div className="flex gap-3">
+          <Button
+            onClick={handleExport}
+            disabled={results.length === 0}
+            variant="outline"
+            className="flex-1 h-12 border-white/30 text-white hover:bg-white/10 bg-transparent disabled:opacity-50"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Export
+          </Button>
+          <Button
+            onClick={() => fileInputRef.current?.click()}
+            variant="outline"
+            className="flex-1 h-12 border-white/30 text-white hover:bg-white/10 bg-transparent"
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            Import
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) handleImport(file)
+              e.target.value = ""
+            }}
+          />
+        </div>
+        {importError && (
+          <p className="text-sm text-red-300 text-center">{importError}</p>
+        )}
+      </div>
+    </div>
+  )
+}
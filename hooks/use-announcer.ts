@@ -0,0 +1,23 @@
+"use client"
+
+import { useState, useCallback, useRef } from "react"
+
+// Text for an aria-live region. Clearing first and setting on the next frame makes
+// screen readers repeat a message even when it's identical to the last one.
+export function useAnnouncer() {
+  const [message, setMessage] = useState("")
+  const frameRef = useRef<number | null>(null)
+
+  const announce = useCallback((text: string) => {
+    if (frameRef.current !== null) {
+      cancelAnimationFrame(frameRef.current)
+    }
+    setMessage("")
+    frameRef.current = requestAnimationFrame(() => {
+      frameRef.current = null
+      setMessage(text)
+    })
+  }, [])
+
+  return [message, announce] as const
+}
@@ -0,0 +1,53 @@
+"use client"
+
+import { useState, useCallback, useEffect, useRef } from "react"
+import { getHintTier, loadHints, saveHints, MAX_HINT_TIER, type HintRecord } from "@/lib/hints"
+
+// Hints revealed for the current puzzle. `key` is the board key used for saved
+// progress; hints are only fetchable for official puzzles, which have a date.
+export function useHints(key: string | null, puzzleDate: string | null) {
+  const [hints, setHints] = useState<HintRecord[]>([])
+  const [loadingLevel, setLoadingLevel] = useState<number | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  // The puzzle on screen now, to tell whether a response is for an earlier one
+  const keyRef = useRef(key)
+  keyRef.current = key
+
+  useEffect(() => {
+    setHints(key ? loadHints(key) : [])
+    setError(null)
+    setLoadingLevel(null)
+  }, [key])
+
+  // Fetch the next tier for a category and remember it
+  const revealNextHint = useCallback(async (level: number) => {
+    if (!key || !puzzleDate) return
+    const tier = getHintTier(hints, level) + 1
+    if (tier > MAX_HINT_TIER) return
+
+    setLoadingLevel(level)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/puzzle/hint?date=${puzzleDate}&level=${level}&tier=${tier}`)
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null)
+        throw new Error(body?.message || "Failed to fetch hint")
+      }
+
+      const hint: HintRecord = await response.json()
+      const next = [...hints, hint]
+      // Still kept for the puzzle it was asked for, but not shown over a newer one
+      saveHints(key, next)
+      if (keyRef.current === key) setHints(next)
+    } catch (error) {
+      console.error("Error fetching hint:", error)
+      if (keyRef.current === key) setError(error instanceof Error ? error.message : "Could not load a hint.")
+    } finally {
+      if (keyRef.current === key) setLoadingLevel(null)
+    }
+  }, [key, puzzleDate, hints])
+
+  return { hints, revealNextHint, loadingLevel, error }
+}
@@ -0,0 +1,76 @@
+"use client"
+
+import { useState, useCallback, useEffect, useRef } from "react"
+import type { Participant, RoomAction, RoomSnapshot } from "@/lib/rooms/types"
+
+// connecting: waiting for the first snapshot (or reconnecting)
+// missing: the room ended or the code was wrong
+export type RoomStatus = "idle" | "connecting" | "connected" | "missing"
+
+// Not crypto.randomUUID - that needs a secure context, and rooms get tested over LAN
+function createParticipantId(): string {
+  return Math.random().toString(36).slice(2, 10) + Date.now().toString(36)
+}
+
+// Live connection to a collaborative room over Server-Sent Events. Every change,
+// ours or anyone else's, comes back as a full snapshot passed to `onSnapshot`.
+export function useRoom(roomId: string | null, name: string, onSnapshot: (snapshot: RoomSnapshot) => void) {
+  const [participantId] = useState(createParticipantId)
+  const [participants, setParticipants] = useState<Participant[]>([])
+  const [status, setStatus] = useState<RoomStatus>("idle")
+  const onSnapshotRef = useRef(onSnapshot)
+  onSnapshotRef.current = onSnapshot
+
+  useEffect(() => {
+    if (!roomId) {
+      setStatus("idle")
+      setParticipants([])
+      return
+    }
+
+    setStatus("connecting")
+    const params = new URLSearchParams({ participant: participantId, name })
+    const events = new EventSource(`/api/rooms/${encodeURIComponent(roomId)}/events?${params}`)
+
+    events.onmessage = (event) => {
+      let snapshot: RoomSnapshot
+      try {
+        snapshot = JSON.parse(event.data)
+      } catch {
+        return // Garbled message; the next snapshot carries the full state anyway
+      }
+      if (!Array.isArray(snapshot?.participants) || typeof snapshot.state !== "object") return
+      setParticipants(snapshot.participants)
+      setStatus("connected")
+      onSnapshotRef.current(snapshot)
+    }
+    events.addEventListener("missing", () => {
+      events.close()
+      setStatus("missing")
+    })
+    // EventSource reconnects on its own; show that we're catching up meanwhile
+    events.onerror = () => setStatus(prev => prev === "missing" ? prev : "connecting")
+
+    return () => events.close()
+  }, [roomId, name, participantId])
+
+  const sendActions = useCallback(async (actions: RoomAction[]) => {
+    if (!roomId || actions.length === 0) return
+    try {
+      const response = await fetch(`/api/rooms/${encodeURIComponent(roomId)}/actions`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ participant: participantId, actions }),
+      })
+      if (!response.ok) {
+        const body = await response.json().catch(() => null)
+        throw new Error(body?.message || "Failed to sync change")
+      }
+    } catch (error) {
+      // The next snapshot from the server puts the board back in sync
+      console.error("Error syncing room:", error)
+    }
+  }, [roomId, participantId])
+
+  return { participantId, participants, status, sendActions }
+}
@@ -0,0 +1,23 @@
+"use client"
+
+import { useState, useCallback, useEffect } from "react"
+import { DEFAULT_SETTINGS, loadSettings, saveSettings, type Settings } from "@/lib/settings"
+
+// Settings start at the defaults for the server render, then load from storage on mount
+export function useSettings() {
+  const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS)
+
+  useEffect(() => {
+    setSettings(loadSettings())
+  }, [])
+
+  const updateSettings = useCallback((changes: Partial<Settings>) => {
+    setSettings(prev => {
+      const next = { ...prev, ...changes }
+      saveSettings(next)
+      return next
+    })
+  }, [])
+
+  return [settings, updateSettings] as const
+}
@@ -0,0 +1,71 @@
+"use client"
+
+import { useState, useCallback, useEffect, useRef } from "react"
+import { INITIAL_TIMER, type TimerState } from "@/lib/timer"
+
+// A stopwatch that pauses while the page is hidden. `timer` is the checkpointed
+// state (safe to persist - it only changes on start, pause and finish); add the
+// time since `runningSince` for the live value.
+export function useSolveTimer() {
+  const [timer, setTimer] = useState<TimerState>(INITIAL_TIMER)
+  const [runningSince, setRunningSince] = useState<number | null>(null)
+  const timerRef = useRef(timer)
+  const runningSinceRef = useRef(runningSince)
+
+  const update = useCallback((next: TimerState, since: number | null) => {
+    timerRef.current = next
+    runningSinceRef.current = since
+    setTimer(next)
+    setRunningSince(since)
+  }, [])
+
+  // Current time including the running stretch, for banking it outside the render cycle
+  const getSnapshot = useCallback((): TimerState => {
+    const since = runningSinceRef.current
+    return {
+      elapsedMs: timerRef.current.elapsedMs + (since !== null ? Date.now() - since : 0),
+      finished: timerRef.current.finished,
+    }
+  }, [])
+
+  // Begin timing a newly loaded puzzle, carrying on from any saved time
+  const start = useCallback((initial: TimerState = INITIAL_TIMER) => {
+    update(initial, initial.finished || document.hidden ? null : Date.now())
+  }, [update])
+
+  const pause = useCallback(() => {
+    if (runningSinceRef.current !== null) update(getSnapshot(), null)
+  }, [update, getSnapshot])
+
+  const resume = useCallback(() => {
+    if (runningSinceRef.current === null && !timerRef.current.finished) {
+      update(timerRef.current, Date.now())
+    }
+  }, [update])
+
+  const finish = useCallback(() => {
+    if (!timerRef.current.finished) update({ ...getSnapshot(), finished: true }, null)
+  }, [update, getSnapshot])
+
+  // Carry on from the stopped time, e.g. after undoing the move that completed the board
+  const reopen = useCallback(() => {
+    if (timerRef.current.finished) {
+      update({ ...timerRef.current, finished: false }, document.hidden ? null : Date.now())
+    }
+  }, [update])
+
+  // Don't count time spent in another tab or app
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        pause()
+      } else {
+        resume()
+      }
+    }
+    document.addEventListener("visibilitychange", handleVisibilityChange)
+    return () => document.removeEventListener("visibilitychange", handleVisibilityChange)
+  }, [pause, resume])
+
+  return { timer, runningSince, start, finish, reopen, getSnapshot }
+}
@@ -0,0 +1,55 @@
+"use client"
+
+import { useState, useCallback, useRef } from "react"
+
+// Generic undo/redo stacks of snapshots. The caller owns the live state:
+// `record` stores the snapshot from before a change, while `undo`/`redo` take
+// the current snapshot and hand back the one to restore (or null if there is none).
+export function useUndoHistory<T>(limit = 100) {
+  const pastRef = useRef<T[]>([])
+  const futureRef = useRef<T[]>([])
+  const [depth, setDepth] = useState({ past: 0, future: 0 })
+
+  const sync = useCallback(() => {
+    setDepth({ past: pastRef.current.length, future: futureRef.current.length })
+  }, [])
+
+  const record = useCallback((snapshot: T) => {
+    pastRef.current = [...pastRef.current, snapshot].slice(-limit)
+    futureRef.current = []
+    sync()
+  }, [limit, sync])
+
+  const undo = useCallback((current: T): T | null => {
+    const previous = pastRef.current[pastRef.current.length - 1]
+    if (previous === undefined) return null
+    pastRef.current = pastRef.current.slice(0, -1)
+    futureRef.current = [...futureRef.current, current]
+    sync()
+    return previous
+  }, [sync])
+
+  const redo = useCallback((current: T): T | null => {
+    const next = futureRef.current[futureRef.current.length - 1]
+    if (next === undefined) return null
+    futureRef.current = futureRef.current.slice(0, -1)
+    pastRef.current = [...pastRef.current, current]
+    sync()
+    return next
+  }, [sync])
+
+  const clear = useCallback(() => {
+    pastRef.current = []
+    futureRef.current = []
+    sync()
+  }, [sync])
+
+  return {
+    record,
+    undo,
+    redo,
+    clear,
+    canUndo: depth.past > 0,
+    canRedo: depth.future > 0,
+  }
+}
@@ -0,0 +1,149 @@
+import type { AnalysisKind, CandidateGroup } from "@/lib/analysis/types"
+import { HOMOPHONES, PREFIX_COMPOUNDS, SOUNDS_LIKE, SUFFIX_COMPOUNDS, THEMES } from "@/lib/analysis/word-lists"
+
+// Each detector looks at the 16 words and returns every link it can find,
+// however many words share it; analyzeWords decides which are worth showing.
+
+// Letters only, so "ICE CREAM" and "ICECREAM" compare equal
+export const toLetters = (word: string) => word.toUpperCase().replace(/[^A-Z]/g, "")
+
+const sortLetters = (word: string) => [...word].sort().join("")
+
+function buildGroup(
+  kind: AnalysisKind,
+  label: string,
+  explanation: string,
+  reasons: Map<string, string>,
+  strength: number
+): CandidateGroup {
+  return {
+    id: `${kind}:${label}`,
+    kind,
+    label,
+    explanation,
+    words: Array.from(reasons.keys()),
+    reasons: Object.fromEntries(reasons),
+    strength,
+  }
+}
+
+// Words that are members of a themed list
+export function findThemes(words: string[]): CandidateGroup[] {
+  return Object.entries(THEMES).map(([theme, members]) => {
+    const set = new Set(members)
+    const reasons = new Map(words.filter(word => set.has(toLetters(word))).map(word => [word, theme]))
+    return buildGroup("theme", capitalize(theme), `Each is one of the ${theme}.`, reasons, 2)
+  })
+}
+
+// Themed words tucked inside longer ones, including across spaces: "BOWL" hides OWL
+export function findHiddenWords(words: string[]): CandidateGroup[] {
+  return Object.entries(THEMES).map(([theme, members]) => {
+    const reasons = new Map<string, string>()
+    for (const word of words) {
+      const letters = toLetters(word)
+      const hidden = members.find(member => member.length >= 3 && member !== letters && letters.includes(member))
+      if (hidden) reasons.set(word, `hides ${hidden}`)
+    }
+    return buildGroup("hidden", `Hidden ${theme}`, `Each has one of the ${theme} inside it.`, reasons, 2)
+  })
+}
+
+// Words whose letters rearrange into a themed word: "FLOW" is WOLF
+export function findAnagrams(words: string[]): CandidateGroup[] {
+  return Object.entries(THEMES).map(([theme, members]) => {
+    const reasons = new Map<string, string>()
+    for (const word of words) {
+      const letters = toLetters(word)
+      const sorted = sortLetters(letters)
+      const match = members.find(member => member !== letters && member.length >= 3 && sortLetters(member) === sorted)
+      if (match) reasons.set(word, `anagram of ${match}`)
+    }
+    return buildGroup("anagram", `Anagrams of ${theme}`, `Each can be rearranged into one of the ${theme}.`, reasons, 2)
+  })
+}
+
+// Sound-alikes: themed ones ("SEA" is C) are specific, general homophones much less so
+export function findHomophones(words: string[]): CandidateGroup[] {
+  const groups = Object.entries(SOUNDS_LIKE).map(([theme, sounds]) => {
+    const reasons = new Map<string, string>()
+    for (const word of words) {
+      const target = sounds[toLetters(word)]
+      if (target && target !== toLetters(word)) reasons.set(word, `sounds like ${target}`)
+    }
+    return buildGroup("homophone", `Sound like ${theme}`, `Each sounds like one of the ${theme}.`, reasons, 3)
+  })
+
+  const reasons = new Map<string, string>()
+  for (const word of words) {
+    const letters = toLetters(word)
+    const set = HOMOPHONES.find(homophones => homophones.some(h => toLetters(h) === letters))
+    if (set) {
+      reasons.set(word, `sounds like ${set.filter(h => toLetters(h) !== letters).join(" / ")}`)
+    }
+  }
+  groups.push(buildGroup("homophone", "Homophones", "Each sounds like a different word.", reasons, 1))
+
+  return groups
+}
+
+// Words that make a compound or phrase with the same word: ___BALL, FIRE___
+export function findCompounds(words: string[]): CandidateGroup[] {
+  const suffixes = Object.entries(SUFFIX_COMPOUNDS).map(([affix, stems]) => {
+    const set = new Set(stems)
+    const reasons = new Map(words.filter(word => set.has(toLetters(word))).map(word => [word, `${toLetters(word)}${affix}`]))
+    return buildGroup("compound", `___${affix}`, `Each can come before ${affix}.`, reasons, 3)
+  })
+
+  const prefixes = Object.entries(PREFIX_COMPOUNDS).map(([affix, stems]) => {
+    const set = new Set(stems)
+    const reasons = new Map(words.filter(word => set.has(toLetters(word))).map(word => [word, `${affix}${toLetters(word)}`]))
+    return buildGroup("compound", `${affix}___`, `Each can come after ${affix}.`, reasons, 3)
+  })
+
+  return [...suffixes, ...prefixes]
+}
+
+// Spelling patterns that need no word list at all
+export function findLetterPatterns(words: string[]): CandidateGroup[] {
+  const groups: CandidateGroup[] = []
+  const collect = (label: string, explanation: string, reasonFor: (letters: string) => string | null) => {
+    const reasons = new Map<string, string>()
+    for (const word of words) {
+      const reason = reasonFor(toLetters(word))
+      if (reason) reasons.set(word, reason)
+    }
+    groups.push(buildGroup("letters", label, explanation, reasons, 1))
+  }
+
+  collect("Double letters", "Each has the same letter twice in a row.", letters => {
+    const double = letters.match(/([A-Z])\1/)
+    return double ? `double ${double[1]}` : null
+  })
+  collect("Palindromes", "Each reads the same backwards.", letters =>
+    letters.length >= 3 && letters === [...letters].reverse().join("") ? "reads the same backwards" : null)
+  collect("Letters in alphabetical order", "Each word's letters run in alphabetical order.", letters =>
+    letters.length >= 4 && letters === sortLetters(letters) ? "letters in order" : null)
+
+  // Shared starts and ends, longest first so "-ING" wins over "-NG"
+  for (const [position, length] of [["start", 3], ["start", 2], ["end", 3], ["end", 2]] as const) {
+    const byPart = new Map<string, string[]>()
+    for (const word of words) {
+      const letters = toLetters(word)
+      if (letters.length <= length) continue
+      const part = position === "start" ? letters.slice(0, length) : letters.slice(-length)
+      byPart.set(part, [...(byPart.get(part) ?? []), word])
+    }
+    for (const [part, matching] of byPart) {
+      const label = position === "start" ? `Start with ${part}` : `End in ${part}`
+      const reasons = new Map(matching.map(word => [word, position === "start" ? `${part}...` : `...${part}`]))
+      groups.push(buildGroup("letters", label, `Each ${position === "start" ? "starts" : "ends"} with ${part}.`, reasons, 1))
+    }
+  }
+
+  return groups
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1)
+}
@@ -0,0 +1,63 @@
+import type { CandidateGroup } from "@/lib/analysis/types"
+import {
+  findAnagrams,
+  findCompounds,
+  findHiddenWords,
+  findHomophones,
+  findLetterPatterns,
+  findThemes,
+} from "@/lib/analysis/detectors"
+
+export type { AnalysisKind, CandidateGroup } from "@/lib/analysis/types"
+
+// Groups need four words to be a candidate; past this many, the link says little
+const MAX_GROUP_SIZE = 8
+// Loose links (spelling, general homophones) match too much to make a word a red herring
+const MIN_HERRING_STRENGTH = 2
+
+// Everything the bundled lists can see in the 16 words, best candidates first:
+// exactly four words before larger sets, then the more specific kinds of link.
+// Runs entirely in the browser from bundled data, so it works offline.
+export function analyzeWords(words: string[]): CandidateGroup[] {
+  const groups = [
+    ...findCompounds(words),
+    ...findHomophones(words),
+    ...findThemes(words),
+    ...findHiddenWords(words),
+    ...findAnagrams(words),
+    ...findLetterPatterns(words),
+  ].filter(group => group.words.length >= 4 && group.words.length <= MAX_GROUP_SIZE)
+
+  // The same words for the same reason (e.g. "Start with STR" and "Start with ST") - keep the first
+  const seen = new Set<string>()
+  const unique = groups.filter(group => {
+    const key = `${group.kind}:${[...group.words].sort().join(",")}`
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+
+  return unique.sort((a, b) =>
+    Number(b.words.length === 4) - Number(a.words.length === 4)
+    || b.strength - a.strength
+    || a.words.length - b.words.length
+  )
+}
+
+// Words that fit two or more candidate groups - the ones a puzzle uses to mislead.
+// Maps each such word to its competing groups, strongest first.
+export function findRedHerrings(candidates: CandidateGroup[]): Map<string, CandidateGroup[]> {
+  const groupsByWord = new Map<string, CandidateGroup[]>()
+  for (const candidate of candidates) {
+    if (candidate.strength < MIN_HERRING_STRENGTH) continue
+    for (const word of candidate.words) {
+      groupsByWord.set(word, [...(groupsByWord.get(word) ?? []), candidate])
+    }
+  }
+
+  return new Map(
+    Array.from(groupsByWord)
+      .filter(([, groups]) => groups.length >= 2)
+      .map(([word, groups]) => [word, [...groups].sort((a, b) => b.strength - a.strength)])
+  )
+}
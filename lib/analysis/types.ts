@@ -0,0 +1,14 @@
+// The kind of link a candidate group is built on
+export type AnalysisKind = "theme" | "hidden" | "anagram" | "homophone" | "compound" | "letters"
+
+// A set of tiles that share something the word lists or letter patterns can see.
+// It can hold more than four words - that's where the red herrings are.
+export interface CandidateGroup {
+  id: string // Stable across runs, e.g. "compound:___BALL"
+  kind: AnalysisKind
+  label: string // Short, like "___BALL" or "Hidden animals"
+  explanation: string
+  words: string[] // Tiles that fit, in grid order
+  reasons: Record<string, string> // Per word, e.g. "FOOTBALL" or "hides OWL"
+  strength: number // 1 (loose) to 3 (specific), for ranking
+}
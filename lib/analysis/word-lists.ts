@@ -0,0 +1,185 @@
+// Bundled word lists for the analysis panel, so it runs offline with no outside
+// service. They favour the kinds of groups Connections actually uses over size:
+// a short list that hits often beats a dictionary that matches everything.
+
+// Themed sets: checked as plain membership, as words hidden inside a tile, and as anagrams
+export const THEMES: Record<string, string[]> = {
+  animals: [
+    "ANT", "APE", "ASP", "BAT", "BEE", "BOAR", "CAT", "COW", "CRAB", "DEER", "DOE", "DOG", "DOVE", "DUCK", "EEL",
+    "ELK", "EMU", "EWE", "FOX", "FROG", "GNU", "GOAT", "HARE", "HEN", "HOG", "LION", "LYNX", "MOLE", "MOOSE", "MOUSE",
+    "MULE", "NEWT", "OTTER", "OWL", "PIG", "PONY", "PUMA", "RAM", "RAT", "SEAL", "SHEEP", "SLOTH", "SWAN", "TIGER",
+    "TOAD", "WASP", "WOLF", "WORM", "YAK", "ZEBRA",
+  ],
+  birds: [
+    "CROW", "DOVE", "DUCK", "EAGLE", "EGRET", "EMU", "FINCH", "GOOSE", "GULL", "HAWK", "HERON", "JAY", "KITE", "LARK",
+    "MACAW", "OWL", "PARROT", "RAVEN", "ROBIN", "ROOK", "STORK", "SWALLOW", "SWAN", "SWIFT", "TERN", "THRUSH",
+    "TIT", "WREN",
+  ],
+  fish: [
+    "BASS", "BREAM", "CARP", "CHAR", "COD", "DAB", "EEL", "GAR", "HAKE", "HALIBUT", "LING", "MACKEREL", "PERCH",
+    "PIKE", "PLAICE", "RAY", "ROACH", "SALMON", "SHAD", "SKATE", "SOLE", "SPRAT", "TROUT", "TUNA",
+  ],
+  "body parts": [
+    "ARM", "BACK", "BROW", "CALF", "CHEST", "CHIN", "EAR", "ELBOW", "EYE", "FOOT", "GUM", "GUT", "HAND", "HEAD",
+    "HEEL", "HIP", "JAW", "KNEE", "LEG", "LIP", "LUNG", "NAIL", "NECK", "NOSE", "PALM", "RIB", "SHIN", "SKIN",
+    "SOLE", "THUMB", "TOE", "TONGUE", "WRIST",
+  ],
+  colors: [
+    "AMBER", "AQUA", "BEIGE", "BLACK", "BLUE", "BROWN", "CORAL", "CREAM", "CYAN", "GOLD", "GRAY", "GREEN", "GREY",
+    "INDIGO", "IVORY", "JADE", "KHAKI", "LILAC", "LIME", "MAUVE", "NAVY", "OCHRE", "OLIVE", "ORANGE", "PINK",
+    "PLUM", "PURPLE", "RED", "ROSE", "RUBY", "RUST", "SCARLET", "SILVER", "TAN", "TEAL", "VIOLET", "WHITE", "YELLOW",
+  ],
+  numbers: [
+    "ONE", "TWO", "THREE", "FOUR", "FIVE", "SIX", "SEVEN", "EIGHT", "NINE", "TEN", "ELEVEN", "TWELVE", "TWENTY",
+    "HUNDRED", "THOUSAND", "MILLION", "DOZEN",
+  ],
+  "Greek letters": [
+    "ALPHA", "BETA", "GAMMA", "DELTA", "EPSILON", "ZETA", "ETA", "THETA", "IOTA", "KAPPA", "LAMBDA", "MU", "NU",
+    "XI", "OMICRON", "PI", "RHO", "SIGMA", "TAU", "UPSILON", "PHI", "CHI", "PSI", "OMEGA",
+  ],
+  planets: ["MERCURY", "VENUS", "EARTH", "MARS", "JUPITER", "SATURN", "URANUS", "NEPTUNE", "PLUTO"],
+  "car brands": [
+    "AUDI", "BMW", "BUICK", "DODGE", "FIAT", "FORD", "HONDA", "JAGUAR", "JEEP", "KIA", "LEXUS", "LOTUS", "MAZDA",
+    "MINI", "NISSAN", "OPEL", "RAM", "SAAB", "SEAT", "SKODA", "SUBARU", "TESLA", "TOYOTA", "VOLVO",
+  ],
+  trees: [
+    "ALDER", "ASH", "ASPEN", "BEECH", "BIRCH", "CEDAR", "ELM", "FIR", "HAZEL", "HOLLY", "LARCH", "LIME", "MAPLE",
+    "OAK", "PALM", "PINE", "PLANE", "POPLAR", "ROWAN", "SPRUCE", "YEW", "WILLOW",
+  ],
+  rivers: [
+    "AMAZON", "CONGO", "DANUBE", "DEE", "GANGES", "INDUS", "LOIRE", "NILE", "ODER", "PO", "RHINE", "RHONE",
+    "SEINE", "TAY", "THAMES", "TIBER", "TIGRIS", "TYNE", "URAL", "VOLGA", "YUKON",
+  ],
+  "chess pieces": ["BISHOP", "CASTLE", "KING", "KNIGHT", "PAWN", "QUEEN", "ROOK"],
+  "card games": ["BRIDGE", "CANASTA", "CRIBBAGE", "EUCHRE", "GIN", "HEARTS", "POKER", "RUMMY", "SNAP", "SPADES", "SPIT", "WAR", "WHIST"],
+  "poker terms": ["ANTE", "BLIND", "BLUFF", "CALL", "CHECK", "FLOP", "FLUSH", "FOLD", "KICKER", "RAISE", "RIVER", "STRAIGHT", "TELL", "TURN"],
+  "music genres": ["BLUES", "DISCO", "FOLK", "FUNK", "GRIME", "HOUSE", "JAZZ", "METAL", "POP", "PUNK", "RAP", "REGGAE", "ROCK", "SOUL", "SKA", "SWING", "TRAP"],
+  instruments: [
+    "BANJO", "BASS", "BELL", "CELLO", "DRUM", "FIFE", "FLUTE", "GONG", "GUITAR", "HARP", "HORN", "LUTE", "LYRE",
+    "OBOE", "ORGAN", "PIANO", "SITAR", "TUBA", "UKULELE", "VIOLA", "VIOLIN",
+  ],
+  metals: ["BRASS", "BRONZE", "COPPER", "GOLD", "IRON", "LEAD", "NICKEL", "PLATINUM", "SILVER", "STEEL", "TIN", "ZINC"],
+  gems: ["AGATE", "AMBER", "BERYL", "DIAMOND", "EMERALD", "GARNET", "JADE", "JET", "ONYX", "OPAL", "PEARL", "RUBY", "SAPPHIRE", "TOPAZ"],
+  weather: ["CLOUD", "FOG", "FROST", "GALE", "HAIL", "HAZE", "MIST", "RAIN", "SLEET", "SMOG", "SNOW", "STORM", "SUN", "WIND"],
+  fruits: [
+    "APPLE", "BANANA", "CHERRY", "DATE", "FIG", "GRAPE", "GUAVA", "KIWI", "LEMON", "LIME", "MANGO", "MELON", "OLIVE",
+    "ORANGE", "PEACH", "PEAR", "PLUM", "QUINCE",
+  ],
+  "units of measure": ["ACRE", "FOOT", "GRAM", "HAND", "INCH", "KNOT", "LEAGUE", "METER", "MILE", "OUNCE", "PINT", "POUND", "QUART", "STONE", "TON", "YARD"],
+  "zodiac signs": ["ARIES", "TAURUS", "GEMINI", "CANCER", "LEO", "VIRGO", "LIBRA", "SCORPIO", "SAGITTARIUS", "CAPRICORN", "AQUARIUS", "PISCES"],
+  "Norse and Greek gods": ["ARES", "ATLAS", "EROS", "HADES", "HERA", "HERMES", "LOKI", "ODIN", "PAN", "THOR", "ZEUS"],
+  currencies: ["BAHT", "DINAR", "DOLLAR", "EURO", "FRANC", "KRONA", "LIRA", "PESO", "POUND", "RAND", "REAL", "RUBLE", "RUPEE", "WON", "YEN", "YUAN"],
+}
+
+// Words that complete a compound or phrase with a fixed ending ("___BALL") or start ("FIRE___").
+// Keyed by the shared part; the values are the other half.
+export const SUFFIX_COMPOUNDS: Record<string, string[]> = {
+  BALL: ["BASE", "BASKET", "BEACH", "CANNON", "CURVE", "DODGE", "EYE", "FIRE", "FOOT", "GUM", "HAND", "HIGH", "MEAT", "MOTH", "NET", "ODD", "PAINT", "PIN", "PUFF", "SCREW", "SNOW", "SOFT", "SPIT", "STINK", "VOLLEY", "DISCO", "FAST", "BLACK", "GOLF", "CRYSTAL"],
+  BOARD: ["BILL", "BLACK", "CARD", "CHALK", "CHESS", "CLIP", "CUP", "DART", "DASH", "KEY", "MOTHER", "OVER", "SCORE", "SIDE", "SKATE", "SNOW", "SPRING", "STAR", "SURF", "SWITCH", "WHITE", "BREAD", "CHOPPING", "FLOOR", "HEAD"],
+  BOX: ["BOOM", "CHATTER", "GEAR", "ICE", "JUKE", "LUNCH", "MAIL", "MATCH", "PILL", "POST", "SAND", "SHOE", "SOAP", "TIN", "TOOL", "VOICE", "JACK", "BLACK", "FUSE", "SKETCH", "SPICE"],
+  CAKE: ["CHEESE", "CUP", "FISH", "FRUIT", "PAN", "SPONGE", "SHORT", "CRAB", "RICE", "LAYER", "CARROT", "POUND", "WEDDING", "OAT", "JAFFA"],
+  FISH: ["CAT", "CRAY", "CUTTLE", "DOG", "GOLD", "JELLY", "KING", "LION", "MONK", "PUFFER", "SAIL", "SHELL", "STAR", "SWORD", "SUN", "BLOW", "FLAT", "SILVER"],
+  FLY: ["BUTTER", "DRAGON", "FIRE", "HORSE", "HOUSE", "MAY", "SAW", "BAR", "BLOW", "FRUIT", "GREEN", "CRANE", "BUTTON", "SHOO", "DAMSEL"],
+  HOUSE: ["BIRD", "BOAT", "CLUB", "COURT", "DOG", "FARM", "FIRE", "GREEN", "GUEST", "HEN", "LIGHT", "OUT", "POWER", "PUB", "ROUND", "SUMMER", "TREE", "WARE", "WASH", "WORK", "MAD", "OPERA", "DOLLS", "FULL"],
+  LIGHT: ["DAY", "FLASH", "FLOOD", "GAS", "HIGH", "LAMP", "LIME", "MOON", "NIGHT", "SEARCH", "SKY", "SPOT", "STAR", "SUN", "TORCH", "HEAD", "TAIL", "FIRE", "CANDLE", "BACK", "GREEN", "RED", "STOP", "FEATHER"],
+  LINE: ["AIR", "BASE", "BEE", "BOTTOM", "BYE", "CLOTHES", "DATE", "DEAD", "FAULT", "FINISH", "FRONT", "GUIDE", "HAIR", "HEAD", "HOT", "LIFE", "NECK", "OUT", "PIPE", "PUNCH", "SHORE", "SIDE", "SKY", "STORY", "TAG", "TIME", "TOUCH", "WAIST", "PICKUP"],
+  MAN: ["BAT", "BOGEY", "CAVE", "CHAIR", "DOOR", "FIRE", "FISHER", "FRONT", "GUN", "HIT", "ICE", "IRON", "MAIL", "MILK", "POST", "SAND", "SNOW", "SPIDER", "SUPER", "WING", "YES", "SHOW", "HANG", "GENTLE", "SALES"],
+  PAPER: ["BROWN", "FLY", "NEWS", "SAND", "TISSUE", "TOILET", "WALL", "WAX", "WHITE", "RICE", "TRACING", "GREASE", "CREPE", "TOWN"],
+  POINT: ["BALL", "BREAK", "BOILING", "CHECK", "DECIMAL", "FOCAL", "FREEZING", "GUN", "MATCH", "NEEDLE", "PEN", "PIN", "POWER", "SET", "STAND", "TIPPING", "VIEW", "WEST", "BULLET", "EXCLAMATION", "MELTING", "VANISHING"],
+  ROOM: ["BALL", "BATH", "BED", "BOARD", "CLASS", "CLOAK", "COURT", "DARK", "DINING", "ELBOW", "ENGINE", "GREEN", "GUEST", "HEAD", "LEG", "LIVING", "MUSH", "NEWS", "POWDER", "REST", "SHOW", "STORE", "SUN", "WIGGLE", "CHAT", "WAITING", "PANIC", "ESCAPE"],
+  SHIP: ["AIR", "BATTLE", "FLAG", "FRIEND", "KING", "LEADER", "MEMBER", "OWNER", "PARTNER", "RELATION", "SPACE", "STAR", "WAR", "WORKMAN", "CHAMPION", "HARD", "SCHOLAR", "TOWN", "MOTHER"],
+  STONE: ["BLARNEY", "BRIM", "COBBLE", "CORNER", "FLAG", "GALL", "GRAVE", "HAIL", "KEY", "KIDNEY", "LIME", "LODE", "MILE", "MILL", "MOON", "ROLLING", "SAND", "STEPPING", "TOMB", "TOUCH", "BIRTH", "HEARTH", "ROSETTA", "CURLING"],
+  WORK: ["BODY", "BRICK", "CLOCK", "FIRE", "FRAME", "GROUND", "HOME", "HOUSE", "IRON", "LEG", "NET", "NEEDLE", "PAPER", "PATCH", "SPADE", "TEAM", "WOOD", "FOOT", "GUESS", "LATTICE", "METAL", "ART", "CASE", "DONKEY"],
+  WOOD: ["BALSA", "BOX", "DEAD", "DOG", "DRIFT", "FIRE", "HARD", "HOLLY", "PLY", "RED", "ROSE", "SAND", "SOFT", "SWEET", "WORM", "BRUSH", "HEART", "KNOTTY", "SANDAL", "TEAK"],
+  BACK: ["BARE", "COME", "DRAW", "FALL", "FEED", "FLASH", "FULL", "HALF", "HORSE", "HUMP", "KICK", "PAY", "PIGGY", "QUARTER", "RAZOR", "RUNNING", "SET", "SWAY", "THROW", "WET", "BOOK", "CASH", "HATCH", "PAPER", "SUN", "FLAT", "HOLD", "COUNTER"],
+  BERRY: ["BLACK", "BLUE", "ELDER", "GOOSE", "STRAW", "BAY", "CHOKE", "HOLLY", "GOJI", "ACAI"],
+  BELL: ["BAR", "BLUE", "COW", "DOOR", "DUMB", "HARE", "JINGLE", "SLEIGH", "TAIL", "CHURCH", "DIVING", "SCHOOL", "TINKER"],
+  CUP: ["BUTTER", "EGG", "TEA", "WORLD", "DAVIS", "RYDER", "STANLEY", "SIPPY", "MEASURING", "BRA", "KEY"],
+  DOG: ["BIRD", "BULL", "CORN", "FIRE", "GUN", "HOT", "HOUND", "LAP", "MAD", "PUP", "SEA", "SHEEP", "SLED", "TOP", "UNDER", "WATCH", "GUIDE", "PRAIRIE", "SHAGGY", "SUN", "CHILI", "HUSH", "LUCKY", "OLD"],
+  CORN: ["BABY", "BARLEY", "BROOM", "CANDY", "PEPPER", "POP", "SWEET"],
+  TIME: ["BED", "DAY", "DINNER", "FACE", "HALF", "LIFE", "LUNCH", "NIGHT", "OVER", "PART", "PASS", "PLAY", "SEA", "SHOW", "SPRING", "SUMMER", "TEA", "WAR", "ANY", "MEAN", "SOME", "ONE", "OLD", "BIG", "PRIME", "SCREEN", "TIGHT"],
+  WATER: ["BACK", "BATH", "BILGE", "BREAK", "DISH", "FIRE", "FLOOD", "FRESH", "GROUND", "HIGH", "HOLY", "LOW", "MELT", "RAIN", "ROSE", "SALT", "SEA", "SODA", "TAP", "TONIC", "UNDER", "WASTE", "WHITE", "DEEP", "TOILET"],
+  HEAD: ["AIR", "ARROW", "BED", "BIG", "BONE", "BULK", "BUTT", "DEAD", "EGG", "FIGURE", "FORE", "HOT", "LETTER", "MAST", "MEAT", "OVER", "PIN", "POT", "RED", "SKIN", "SPEAR", "TOW", "WAR", "WELL", "SHOWER", "HAMMER", "BEACH", "SLEEPY", "BLOCK", "MOTOR"],
+  LESS: ["CARE", "CLUE", "COUNT", "END", "FEAR", "HAP", "HOME", "HOPE", "PRICE", "REST", "RUTH", "SPOT", "TIME", "USE", "WIRE", "BOTTOM", "FLAW", "HAIR", "HEART", "MOTION", "SPINE", "SELF", "LIFE"],
+  STICK: ["CANDLE", "CHAP", "CHOP", "DIP", "DRUM", "FISH", "GEAR", "JOY", "LIP", "MATCH", "POGO", "SLAP", "YARD", "BROOM", "HOCKEY", "INCENSE", "CELERY", "SELFIE", "MEMORY", "WALKING"],
+}
+
+export const PREFIX_COMPOUNDS: Record<string, string[]> = {
+  FIRE: ["ARM", "BALL", "BRAND", "CRACKER", "DRILL", "FIGHTER", "FLY", "HOUSE", "MAN", "PLACE", "POWER", "PROOF", "SIDE", "STORM", "TRUCK", "WALL", "WOOD", "WORK", "WORKS", "ALARM", "ANT", "ENGINE", "ESCAPE", "EXIT", "PIT", "BREAK"],
+  SUN: ["BATHE", "BEAM", "BURN", "DAY", "DIAL", "DOWN", "FLOWER", "GLASSES", "LIGHT", "RISE", "ROOF", "SCREEN", "SET", "SHINE", "SPOT", "STROKE", "TAN", "DRESS", "DECK", "DANCE", "BLOCK", "FISH"],
+  SNOW: ["BALL", "BOARD", "BOUND", "DRIFT", "DROP", "FALL", "FLAKE", "MAN", "MOBILE", "PLOW", "SHOE", "STORM", "WHITE", "ANGEL", "CONE", "GLOBE", "CAP", "DAY"],
+  WATER: ["BED", "BOARD", "BOTTLE", "BUFFALO", "COLOR", "CRESS", "FALL", "FRONT", "GATE", "LILY", "LINE", "LOGGED", "MARK", "MELON", "PARK", "PROOF", "SHED", "SLIDE", "SPORT", "TIGHT", "WAY", "WORKS", "POLO", "GUN", "BOY", "SKI", "TOWER"],
+  BACK: ["BONE", "DOOR", "DROP", "FIRE", "GAMMON", "GROUND", "HAND", "LASH", "LOG", "PACK", "SPACE", "STAGE", "STROKE", "TRACK", "YARD", "BENCH", "FLIP", "HOE", "SEAT", "TALK", "WATER", "SLASH", "FIELD", "PEDAL"],
+  BLACK: ["BERRY", "BIRD", "BOARD", "FRIDAY", "HOLE", "JACK", "LIST", "MAIL", "MARKET", "OUT", "POOL", "SMITH", "SHEEP", "TIE", "WIDOW", "BELT", "BOX", "EYE", "ICE", "MAGIC", "PEPPER", "PANTHER"],
+  HAND: ["BAG", "BALL", "BOOK", "BRAKE", "CUFF", "GUN", "HOLD", "MADE", "OUT", "RAIL", "SET", "SHAKE", "STAND", "WRITING", "SAW", "SOAP", "TOWEL", "PUPPET", "SPRING"],
+  HEAD: ["ACHE", "BAND", "BOARD", "COUNT", "DRESS", "FIRST", "LAMP", "LAND", "LIGHT", "LINE", "LOCK", "MASTER", "PHONE", "QUARTERS", "REST", "ROOM", "SET", "START", "STONE", "STRONG", "WAY", "WIND", "BUTT", "HUNTER", "CASE", "STAND"],
+  AIR: ["BAG", "BASE", "BED", "BORNE", "BRUSH", "BUS", "CRAFT", "FIELD", "GUN", "HEAD", "LINE", "LOCK", "MAIL", "MAN", "PLANE", "PLAY", "PORT", "SHIP", "SPACE", "STRIP", "TIME", "WAVE", "WAY", "POCKET", "GUITAR", "FRYER", "DROP", "HORN"],
+  FOOT: ["BALL", "BRIDGE", "FALL", "HILL", "HOLD", "LIGHT", "LOCKER", "NOTE", "PATH", "PRINT", "REST", "STEP", "STOOL", "WEAR", "WORK", "LOOSE", "MAN", "SOLDIER", "PEDAL"],
+  HOME: ["BODY", "COMING", "LAND", "MADE", "OWNER", "PAGE", "RUN", "SICK", "STEAD", "STRETCH", "TOWN", "WARD", "WORK", "BASE", "BREW", "GROWN", "SCHOOL", "PLATE", "ROOM", "SWEET"],
+  MOON: ["BEAM", "LIGHT", "LIT", "SHINE", "STONE", "STRUCK", "WALK", "CAKE", "PIE", "BOOTS", "DUST", "FACE", "SHOT", "ROOF", "RISE"],
+  SEA: ["BED", "BIRD", "BOARD", "FOOD", "FRONT", "GULL", "HORSE", "LION", "PLANE", "PORT", "SALT", "SHELL", "SHORE", "SICK", "SIDE", "WEED", "DOG", "BASS", "LEVEL", "MONSTER", "CUCUMBER", "URCHIN", "WALL", "WATER", "SON"],
+  STAR: ["BOARD", "BURST", "DUST", "FISH", "GAZER", "LIGHT", "SHIP", "STRUCK", "TRACK", "FRUIT", "GATE", "BUCKS", "SIGN", "ANISE", "FLEET"],
+  RAIN: ["BOW", "COAT", "DROP", "FALL", "FOREST", "STORM", "WATER", "CHECK", "DANCE", "MAKER", "BOOT", "CLOUD", "GAUGE", "MAN"],
+  BOOK: ["CASE", "END", "KEEPER", "LET", "MARK", "SHELF", "SHOP", "STORE", "WORM", "CLUB", "BINDER", "MAKER", "PLATE", "STAND", "LOVER", "SMART"],
+  HOT: ["BED", "CAKE", "DOG", "HEAD", "HOUSE", "PLATE", "POT", "ROD", "SHOT", "SPOT", "TUB", "LINE", "KEY", "SAUCE", "WATER", "SEAT", "DESK", "WIRE", "AIR", "CROSS", "CHOCOLATE", "TODDY", "STREAK"],
+  OVER: ["BOARD", "CAST", "COAT", "COME", "DOSE", "DRAFT", "DRIVE", "FLOW", "HAUL", "HEAD", "KILL", "LAP", "LOAD", "LOOK", "NIGHT", "PASS", "RIDE", "SEE", "SIGHT", "TIME", "TURN", "WHELM", "ALL", "BITE", "COOK", "GROWN", "REACH", "SHOOT", "TAKE", "THROW", "WEIGHT"],
+  UNDER: ["ARM", "CARRIAGE", "COVER", "CURRENT", "CUT", "DOG", "GROUND", "LINE", "MINE", "PASS", "SCORE", "STUDY", "TAKER", "TONE", "WATER", "WEAR", "WORLD", "WRITE", "BELLY", "BRUSH", "CLASS", "COAT", "GRAD", "HAND", "PANTS", "SEA", "SHIRT", "STATE", "TOW"],
+  PAN: ["CAKE", "HANDLE", "PIPE", "TRY", "FLUTE"],
+  PIN: ["BALL", "CUSHION", "HEAD", "HOLE", "POINT", "STRIPE", "WHEEL", "CODE", "UP"],
+  BLUE: ["BELL", "BERRY", "BIRD", "BLOOD", "BOTTLE", "GRASS", "JAY", "PRINT", "TOOTH", "CHEESE", "COLLAR", "MOON", "WHALE", "STOCKING", "FIN", "RIBBON", "JEANS", "SKY"],
+  RED: ["CAP", "CARPET", "COAT", "HEAD", "NECK", "WOOD", "EYE", "FLAG", "HERRING", "LIGHT", "LINE", "PANDA", "SEA", "TAPE", "WINE", "ROSE", "DWARF", "ZONE", "CROSS", "BULL", "HOT"],
+  DOG: ["BONE", "COLLAR", "EAR", "FIGHT", "FISH", "HOUSE", "LEG", "SLED", "TAG", "WOOD", "DAYS", "FOOD", "SITTER", "TROT", "BED", "PADDLE", "WATCH"],
+  CAT: ["BIRD", "CALL", "FISH", "GUT", "NAP", "NIP", "WALK", "TAIL", "FLAP", "SUIT", "WALKER"],
+  HORSE: ["BACK", "BOX", "FLY", "HAIR", "MAN", "PLAY", "POWER", "RADISH", "SHOE", "WHIP", "SENSE", "RACE", "TRADE", "FEATHERS", "CHESTNUT"],
+  EYE: ["BALL", "BROW", "CANDY", "GLASS", "LASH", "LID", "LINER", "PATCH", "PIECE", "SHADOW", "SIGHT", "SORE", "TOOTH", "WASH", "WITNESS", "OPENER", "DROP", "LEVEL", "CONTACT"],
+  POP: ["CORN", "GUN", "STAR", "QUIZ", "TART", "CULTURE", "UP", "ART", "ICON", "MUSIC", "EYE"],
+  TIME: ["BOMB", "CAPSULE", "FRAME", "KEEPER", "LESS", "LINE", "OUT", "PIECE", "SHARE", "TABLE", "ZONE", "LAPSE", "SHEET", "SLOT", "TRAVEL", "WARP", "MACHINE", "BANK"],
+  SPACE: ["BAR", "CRAFT", "MAN", "SHIP", "STATION", "SUIT", "WALK", "AGE", "INVADERS", "RACE", "JAM", "HEATER", "SHUTTLE", "PROBE", "TIME", "X"],
+  GREEN: ["BACK", "BELT", "CARD", "FINCH", "FLY", "GROCER", "HORN", "HOUSE", "LAND", "LIGHT", "ROOM", "WICH", "BEAN", "ONION", "PEACE", "SCREEN", "TEA", "THUMB", "GODDESS", "DAY", "BAY"],
+}
+
+// Words that sound like a themed word: [word, what it sounds like]
+export const SOUNDS_LIKE: Record<string, Record<string, string>> = {
+  letters: {
+    BE: "B", BEE: "B", SEE: "C", SEA: "C", DEE: "D", GEE: "G", EYE: "I", AYE: "I", JAY: "J", KAY: "K", ELL: "L",
+    OH: "O", OWE: "O", PEA: "P", PEE: "P", QUEUE: "Q", CUE: "Q", ARE: "R", ESS: "S", TEA: "T", TEE: "T", YOU: "U",
+    EWE: "U", YEW: "U", WHY: "Y", EX: "X", EM: "M", EN: "N", EF: "F",
+  },
+  numbers: {
+    WON: "ONE", TOO: "TWO", TO: "TWO", FOR: "FOUR", FORE: "FOUR", ATE: "EIGHT", TEN: "TEN", NEIN: "NINE",
+    SICS: "SIX", SIKHS: "SIX", FIVER: "FIVE",
+  },
+  "Greek letters": {
+    NEW: "NU", KNEW: "NU", GNU: "NU", MEW: "MU", MOO: "MU", PIE: "PI", ROW: "RHO", ROE: "RHO", SIGH: "PSI",
+    KAI: "CHI", KEY: "CHI", TOW: "TAU", FIE: "PHI", FEE: "PHI", ZEE: "XI",
+  },
+  "musical notes": {
+    DOE: "DO", DOUGH: "DO", RAY: "RE", MI: "MI", ME: "MI", FAR: "FA", SEW: "SO", SOW: "SO", LAH: "LA", TEA: "TI", TEE: "TI",
+  },
+}
+
+// Common homophone sets, for "these all sound like other words"
+export const HOMOPHONES: string[][] = [
+  ["AIR", "HEIR", "ERE"], ["AISLE", "ISLE", "I'LL"], ["ALTAR", "ALTER"], ["ATE", "EIGHT"], ["BALL", "BAWL"],
+  ["BAND", "BANNED"], ["BARE", "BEAR"], ["BASE", "BASS"], ["BE", "BEE"], ["BEAT", "BEET"], ["BERRY", "BURY"],
+  ["BLEW", "BLUE"], ["BOAR", "BORE"], ["BOARD", "BORED"], ["BOLDER", "BOULDER"], ["BOUGH", "BOW"], ["BRAKE", "BREAK"],
+  ["BREAD", "BRED"], ["BUY", "BY", "BYE"], ["CELL", "SELL"], ["CENT", "SCENT", "SENT"], ["CEREAL", "SERIAL"],
+  ["CHEAP", "CHEEP"], ["CHILI", "CHILLY"], ["CHORD", "CORD"], ["CLAUSE", "CLAWS"], ["COARSE", "COURSE"],
+  ["COLONEL", "KERNEL"], ["DEAR", "DEER"], ["DEW", "DUE"], ["DIE", "DYE"], ["DOE", "DOUGH"], ["EWE", "YOU", "YEW"],
+  ["FAIR", "FARE"], ["FLEA", "FLEE"], ["FLOUR", "FLOWER"], ["FOR", "FORE", "FOUR"], ["FRIAR", "FRYER"],
+  ["GRATE", "GREAT"], ["GROAN", "GROWN"], ["HAIR", "HARE"], ["HALL", "HAUL"], ["HEAL", "HEEL", "HE'LL"],
+  ["HEAR", "HERE"], ["HOARSE", "HORSE"], ["HOLE", "WHOLE"], ["HOUR", "OUR"], ["IDLE", "IDOL"], ["KNEAD", "NEED"],
+  ["KNIGHT", "NIGHT"], ["KNOT", "NOT"], ["KNOW", "NO"], ["LEAD", "LED"], ["MADE", "MAID"], ["MAIL", "MALE"],
+  ["MAIN", "MANE"], ["MEAT", "MEET"], ["MINOR", "MINER"], ["MOOSE", "MOUSSE"], ["MORNING", "MOURNING"],
+  ["NAVAL", "NAVEL"], ["NONE", "NUN"], ["OAR", "OR", "ORE"], ["PAIL", "PALE"], ["PAIN", "PANE"], ["PAIR", "PEAR", "PARE"],
+  ["PAUSE", "PAWS"], ["PEACE", "PIECE"], ["PEAK", "PEEK", "PIQUE"], ["PEDAL", "PEDDLE"], ["PLAIN", "PLANE"],
+  ["POLE", "POLL"], ["PRAY", "PREY"], ["PRINCIPAL", "PRINCIPLE"], ["RAIN", "REIGN", "REIN"], ["RAISE", "RAYS", "RAZE"],
+  ["RAP", "WRAP"], ["READ", "REED"], ["RIGHT", "WRITE", "RITE"], ["RING", "WRING"], ["ROAD", "RODE", "ROWED"],
+  ["ROLE", "ROLL"], ["ROSE", "ROWS"], ["SAIL", "SALE"], ["SCENE", "SEEN"], ["SEA", "SEE"], ["SEAM", "SEEM"],
+  ["SEW", "SO", "SOW"], ["SOLE", "SOUL"], ["SOME", "SUM"], ["SON", "SUN"], ["STAIR", "STARE"], ["STAKE", "STEAK"],
+  ["STATIONARY", "STATIONERY"], ["STEAL", "STEEL"], ["SUITE", "SWEET"], ["TAIL", "TALE"], ["TEA", "TEE"],
+  ["THEIR", "THERE", "THEY'RE"], ["THREW", "THROUGH"], ["THRONE", "THROWN"], ["TIDE", "TIED"], ["TOE", "TOW"],
+  ["VAIN", "VANE", "VEIN"], ["WAIST", "WASTE"], ["WAIT", "WEIGHT"], ["WAR", "WORE"], ["WARE", "WEAR", "WHERE"],
+  ["WAY", "WEIGH", "WHEY"], ["WEAK", "WEEK"], ["WEATHER", "WHETHER"], ["WHICH", "WITCH"], ["WINE", "WHINE"],
+  ["WOOD", "WOULD"], ["YOKE", "YOLK"],
+]
@@ -0,0 +1,12 @@
+// URL-safe base64 for text (UTF-8), without padding - for codes that live in links
+
+export function encodeBase64Url(text: string): string {
+  const binary = Array.from(new TextEncoder().encode(text), byte => String.fromCharCode(byte)).join("")
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+// Throws on input that isn't base64url
+export function decodeBase64Url(code: string): string {
+  const binary = atob(code.replace(/-/g, "+").replace(/_/g, "/"))
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)))
+}
@@ -0,0 +1,188 @@
+import type { Tile } from "@/lib/board"
+import type { CategoryColor, Palette } from "@/lib/categories"
+
+// The board drawn straight onto a canvas - tiles in grid order, colors, one-away
+// markers and glyphs - so the PNG looks the same on every device, at any screen size.
+// Drag offsets aren't drawn: loose tiles would overlap and hide each other.
+
+const TILE = 150
+const GAP = 10
+const PADDING = 24
+const HEADER = 84
+const FOOTER = 36
+const RADIUS = 10
+const SCALE = 2 // Sharp on high-density screens once posted
+const FONT = "system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif"
+const UNMARKED_BG = "#d4d4c8"
+const UNMARKED_TEXT = "#1a1a1a"
+
+export interface BoardImageOptions {
+  tiles: Tile[]
+  wordColors: Record<string, CategoryColor>
+  oneAwayWords: Map<string, CategoryColor>
+  palette: Palette
+  title: string
+  subtitle?: string
+  showGlyphs: boolean
+  imageMap: Record<string, string> | null
+  puzzleDate: string | null // Lets images that block cross-origin use go through /api/puzzle/image
+}
+
+async function fetchImage(url: string): Promise<ImageBitmap> {
+  const response = await fetch(url, { mode: "cors" })
+  if (!response.ok) throw new Error(`Image request failed: ${response.status}`)
+  return createImageBitmap(await response.blob())
+}
+
+// Images that can't be loaded at all fall back to the word, like the tile's alt text
+async function loadImages(imageMap: Record<string, string>, puzzleDate: string | null): Promise<Map<string, ImageBitmap>> {
+  const images = new Map<string, ImageBitmap>()
+  await Promise.all(Object.entries(imageMap).map(async ([word, url]) => {
+    try {
+      images.set(word, await fetchImage(url))
+    } catch {
+      if (!puzzleDate) return
+      try {
+        const params = new URLSearchParams({ date: puzzleDate, word })
+        images.set(word, await fetchImage(`/api/puzzle/image?${params}`))
+      } catch {
+        // Drawn as text instead
+      }
+    }
+  }))
+  return images
+}
+
+// Largest font (with wrapping at spaces) that fits the tile
+function fitText(ctx: CanvasRenderingContext2D, word: string, maxWidth: number, maxHeight: number) {
+  for (let size = 24; size >= 11; size--) {
+    ctx.font = `bold ${size}px ${FONT}`
+    const lines: string[] = []
+    for (const part of word.split(" ")) {
+      const last = lines[lines.length - 1]
+      if (last && ctx.measureText(`${last} ${part}`).width <= maxWidth) {
+        lines[lines.length - 1] = `${last} ${part}`
+      } else {
+        lines.push(part)
+      }
+    }
+    const lineHeight = size * 1.15
+    if (lines.every(line => ctx.measureText(line).width <= maxWidth) && lines.length * lineHeight <= maxHeight) {
+      return { lines, lineHeight }
+    }
+  }
+  return { lines: [word], lineHeight: 11 * 1.15 }
+}
+
+// Same shapes as CategoryGlyph (on its 10x10 grid); yellow is a circle
+const GLYPH_POINTS: Record<Exclude<CategoryColor, "yellow">, [number, number][]> = {
+  green: [[5, 1], [9.5, 9], [0.5, 9]],
+  blue: [[1.5, 1.5], [8.5, 1.5], [8.5, 8.5], [1.5, 8.5]],
+  purple: [[5, 0.5], [9.5, 5], [5, 9.5], [0.5, 5]],
+}
+
+// A glyph in a size x size box
+function drawGlyph(ctx: CanvasRenderingContext2D, color: CategoryColor, x: number, y: number, size: number) {
+  const at = (px: number, py: number): [number, number] => [x + (px / 10) * size, y + (py / 10) * size]
+  ctx.beginPath()
+  if (color === "yellow") {
+    ctx.arc(...at(5, 5), (4 / 10) * size, 0, Math.PI * 2)
+  } else {
+    const points = GLYPH_POINTS[color]
+    points.forEach(([px, py], i) => i === 0 ? ctx.moveTo(...at(px, py)) : ctx.lineTo(...at(px, py)))
+    ctx.closePath()
+  }
+  ctx.fill()
+}
+
+function drawImageContained(ctx: CanvasRenderingContext2D, image: ImageBitmap, x: number, y: number, size: number) {
+  const box = size * 0.75
+  const scale = Math.min(box / image.width, box / image.height)
+  const width = image.width * scale
+  const height = image.height * scale
+  ctx.drawImage(image, x + (size - width) / 2, y + (size - height) / 2, width, height)
+}
+
+export async function renderBoardImage(options: BoardImageOptions): Promise<Blob> {
+  const { tiles, wordColors, oneAwayWords, palette, title, subtitle, showGlyphs, imageMap, puzzleDate } = options
+  const images = imageMap ? await loadImages(imageMap, puzzleDate) : new Map<string, ImageBitmap>()
+
+  const width = PADDING * 2 + TILE * 4 + GAP * 3
+  const height = HEADER + TILE * 4 + GAP * 3 + FOOTER + PADDING
+  const canvas = document.createElement("canvas")
+  canvas.width = width * SCALE
+  canvas.height = height * SCALE
+  const ctx = canvas.getContext("2d")
+  if (!ctx) throw new Error("Canvas is not supported")
+  ctx.scale(SCALE, SCALE)
+
+  ctx.fillStyle = "#121212"
+  ctx.fillRect(0, 0, width, height)
+
+  // Header
+  ctx.textAlign = "center"
+  ctx.textBaseline = "alphabetic"
+  ctx.fillStyle = "#ffffff"
+  ctx.font = `bold 26px ${FONT}`
+  ctx.fillText(title, width / 2, PADDING + 24)
+  if (subtitle) {
+    ctx.fillStyle = "#9ca3af"
+    ctx.font = `15px ${FONT}`
+    ctx.fillText(subtitle, width / 2, PADDING + 48)
+  }
+
+  // Tiles
+  tiles.forEach((tile, index) => {
+    const x = PADDING + (index % 4) * (TILE + GAP)
+    const y = HEADER + Math.floor(index / 4) * (TILE + GAP)
+    const color = wordColors[tile.word]
+    const oneAway = oneAwayWords.get(tile.word)
+
+    ctx.fillStyle = color ? palette[color].bg : UNMARKED_BG
+    ctx.beginPath()
+    ctx.roundRect(x, y, TILE, TILE, RADIUS)
+    ctx.fill()
+
+    if (oneAway) {
+      ctx.strokeStyle = palette[oneAway].oneAwayRing
+      ctx.lineWidth = 3
+      ctx.beginPath()
+      ctx.roundRect(x + 1.5, y + 1.5, TILE - 3, TILE - 3, RADIUS - 1.5)
+      ctx.stroke()
+      ctx.fillStyle = palette[oneAway].oneAwayDot
+      ctx.beginPath()
+      ctx.arc(x + TILE - 12, y + 12, 5, 0, Math.PI * 2)
+      ctx.fill()
+    }
+
+    const textColor = color ? palette[color].text : UNMARKED_TEXT
+    const image = images.get(tile.word)
+    if (image) {
+      drawImageContained(ctx, image, x, y, TILE)
+    } else {
+      const { lines, lineHeight } = fitText(ctx, tile.word, TILE - 20, TILE - 30)
+      ctx.fillStyle = textColor
+      ctx.textBaseline = "middle"
+      const top = y + TILE / 2 - ((lines.length - 1) * lineHeight) / 2
+      lines.forEach((line, i) => ctx.fillText(line, x + TILE / 2, top + i * lineHeight))
+    }
+
+    if (showGlyphs && color) {
+      ctx.fillStyle = textColor
+      ctx.globalAlpha = 0.8
+      drawGlyph(ctx, color, x + 8, y + TILE - 22, 14)
+      ctx.globalAlpha = 1
+    }
+  })
+
+  // Footer
+  ctx.textAlign = "right"
+  ctx.textBaseline = "alphabetic"
+  ctx.fillStyle = "#6b7280"
+  ctx.font = `13px ${FONT}`
+  ctx.fillText("Purple Hunter", width - PADDING, height - PADDING + 4)
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Could not create the image")), "image/png")
+  })
+}
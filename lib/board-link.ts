@@ -0,0 +1,121 @@
+import { decodeBase64Url, encodeBase64Url } from "@/lib/base64url"
+import type { Tile } from "@/lib/board"
+import { CATEGORY_ORDER, type CategoryColor } from "@/lib/categories"
+import { calculatePuzzleNumber, getTodayET } from "@/lib/puzzle-dates"
+
+// A board encoded into a URL fragment (#b=...), so it opens without any fetch.
+// Fragments never reach the server, so the words stay between the two people.
+//
+// The payload is base64url JSON with short keys:
+//   v  format version
+//   i  official puzzle number (omitted for manual puzzles)
+//   w  the 16 words in original puzzle order
+//   o  grid order: one hex digit per tile, indexing into w
+//   c  color per word in w: one of "ygbp", or "-" for none
+//   a  one-away marks, in the same format as c
+const BOARD_LINK_VERSION = 1
+const HASH_PREFIX = "#b="
+const NO_COLOR = "-"
+
+export interface BoardLink {
+  puzzleId: number | null
+  words: string[]
+  order: number[] // Index into words for each grid position
+  wordColors: Record<string, CategoryColor>
+  oneAwayWords: Map<string, CategoryColor>
+}
+
+interface BoardLinkPayload {
+  v: number
+  i?: number
+  w: string[]
+  o: string
+  c: string
+  a: string
+}
+
+const colorCode = (color: CategoryColor | undefined) => color ? color[0] : NO_COLOR
+const fromColorCode = (code: string) => CATEGORY_ORDER.find(color => color[0] === code)
+
+// `originalTiles` are the tiles as created from the puzzle, `tiles` the current grid
+export function encodeBoardLink(
+  puzzleId: number | null,
+  originalTiles: Tile[],
+  tiles: Tile[],
+  wordColors: Record<string, CategoryColor>,
+  oneAwayWords: Map<string, CategoryColor>
+): string {
+  const words = originalTiles.map(t => t.word)
+  const payload: BoardLinkPayload = {
+    v: BOARD_LINK_VERSION,
+    ...(puzzleId !== null && { i: puzzleId }),
+    w: words,
+    o: tiles.map(tile => originalTiles.findIndex(t => t.id === tile.id).toString(16)).join(""),
+    c: words.map(word => colorCode(wordColors[word])).join(""),
+    a: words.map(word => colorCode(oneAwayWords.get(word))).join(""),
+  }
+  return encodeBase64Url(JSON.stringify(payload))
+}
+
+function decodeColors(codes: unknown, words: string[]): [string, CategoryColor][] | null {
+  if (typeof codes !== "string" || codes.length !== words.length) return null
+  const entries: [string, CategoryColor][] = []
+  for (let i = 0; i < words.length; i++) {
+    if (codes[i] === NO_COLOR) continue
+    const color = fromColorCode(codes[i])
+    if (!color) return null
+    entries.push([words[i], color])
+  }
+  return entries
+}
+
+// Null for anything malformed, or from a newer format than this build understands
+export function decodeBoardLink(code: string): BoardLink | null {
+  let payload: Partial<BoardLinkPayload>
+  try {
+    payload = JSON.parse(decodeBase64Url(code))
+  } catch {
+    return null
+  }
+
+  if (typeof payload !== "object" || payload === null || payload.v !== BOARD_LINK_VERSION) return null
+
+  const words = payload.w
+  if (!Array.isArray(words) || words.length !== 16 || !words.every(w => typeof w === "string" && w.length > 0)) {
+    return null
+  }
+
+  const order = typeof payload.o === "string" ? Array.from(payload.o, digit => parseInt(digit, 16)) : []
+  if (order.length !== 16 || new Set(order).size !== 16 || order.some(index => !(index >= 0 && index < 16))) {
+    return null
+  }
+
+  const colors = decodeColors(payload.c, words)
+  const oneAway = decodeColors(payload.a, words)
+  if (!colors || !oneAway) return null
+
+  // Only numbers of puzzles published so far; anything else can't be turned into a date
+  if (payload.i !== undefined && !(
+    Number.isInteger(payload.i) && (payload.i as number) >= 1 && (payload.i as number) <= calculatePuzzleNumber(getTodayET())
+  )) {
+    return null
+  }
+  const puzzleId = payload.i ?? null
+
+  return {
+    puzzleId,
+    words,
+    order,
+    wordColors: Object.fromEntries(colors),
+    oneAwayWords: new Map(oneAway),
+  }
+}
+
+export function buildBoardLinkUrl(origin: string, code: string): string {
+  return `${origin}/${HASH_PREFIX}${code}`
+}
+
+// The board in a location hash, if there is one
+export function readBoardLinkHash(hash: string): BoardLink | null {
+  return hash.startsWith(HASH_PREFIX) ? decodeBoardLink(hash.slice(HASH_PREFIX.length)) : null
+}
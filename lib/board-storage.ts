@@ -0,0 +1,153 @@
+import type { Tile, TileOffset } from "@/lib/board"
+import { isCategoryColor, type CategoryColor } from "@/lib/categories"
+import { isGuessResult, type Guess } from "@/lib/guesses"
+import { INITIAL_TIMER, isTimerState, type TimerState } from "@/lib/timer"
+
+// Bump when the saved shape changes. Fields added in later versions are optional
+// when reading, so older saves load with defaults for anything they lack.
+//   1: tiles, colors, one-away, drag offsets
+//   2: guess log
+//   3: solve timer
+//   4: pencil marks
+export const BOARD_STATE_VERSION = 4
+
+const STORAGE_PREFIX = "purple-hunter:board:"
+
+export interface BoardState {
+  tiles: Tile[]
+  wordColors: Record<string, CategoryColor>
+  oneAwayWords: Map<string, CategoryColor>
+  tileOffsets: Record<string, TileOffset>
+  guesses: Guess[]
+  pencilMarks: Record<string, CategoryColor[]> // Candidate colors per word, apart from its main color
+}
+
+// The timer is saved with the board but kept out of BoardState, so undo never rewinds it
+export interface StoredBoard extends BoardState {
+  timer: TimerState
+}
+
+interface SavedBoardState {
+  version: number
+  savedAt: string
+  tiles: Tile[]
+  wordColors: Record<string, CategoryColor>
+  oneAwayWords: [string, CategoryColor][]
+  tileOffsets: Record<string, TileOffset>
+  guesses?: Guess[] // v2+
+  timer?: TimerState // v3+
+  pencilMarks?: Record<string, CategoryColor[]> // v4+
+}
+
+// Small, stable string hash (djb2) - good enough to key manual puzzles
+function hashString(value: string): string {
+  let hash = 5381
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0
+  }
+  return (hash >>> 0).toString(36)
+}
+
+// Official puzzles are keyed by number; manual ones by their (order-independent) words
+export function getBoardKey(puzzleId: number | null, words: string[]): string {
+  if (puzzleId !== null) {
+    return `puzzle-${puzzleId}`
+  }
+  return `manual-${hashString([...words].sort().join("|"))}`
+}
+
+function isGuess(value: unknown): value is Guess {
+  const guess = value as Guess
+  return typeof guess === "object" && guess !== null
+    && isCategoryColor(guess.color) && isGuessResult(guess.result)
+    && Array.isArray(guess.words) && guess.words.every(w => typeof w === "string")
+    && (guess.title === undefined || typeof guess.title === "string")
+}
+
+function isTileOffset(value: unknown): value is TileOffset {
+  const offset = value as TileOffset
+  return typeof offset === "object" && offset !== null
+    && typeof offset.x === "number" && typeof offset.y === "number"
+}
+
+// Turn whatever was stored into the current shape, dropping anything unrecognised
+function migrateBoardState(raw: unknown): StoredBoard | null {
+  if (typeof raw !== "object" || raw === null) return null
+  const saved = raw as Partial<SavedBoardState>
+
+  // Saves from a newer build may mean something different - don't guess
+  if (typeof saved.version !== "number" || saved.version > BOARD_STATE_VERSION) {
+    return null
+  }
+
+  const tiles = Array.isArray(saved.tiles)
+    ? saved.tiles.filter((t): t is Tile => typeof t?.id === "string" && typeof t?.word === "string")
+    : []
+
+  const wordColors: Record<string, CategoryColor> = {}
+  for (const [word, color] of Object.entries(saved.wordColors ?? {})) {
+    if (isCategoryColor(color)) wordColors[word] = color
+  }
+
+  const oneAwayWords = new Map<string, CategoryColor>()
+  for (const entry of Array.isArray(saved.oneAwayWords) ? saved.oneAwayWords : []) {
+    if (Array.isArray(entry) && typeof entry[0] === "string" && isCategoryColor(entry[1])) {
+      oneAwayWords.set(entry[0], entry[1])
+    }
+  }
+
+  const tileOffsets: Record<string, TileOffset> = {}
+  for (const [id, offset] of Object.entries(saved.tileOffsets ?? {})) {
+    if (isTileOffset(offset)) tileOffsets[id] = { x: offset.x, y: offset.y }
+  }
+
+  const guesses = Array.isArray(saved.guesses) ? saved.guesses.filter(isGuess) : []
+
+  const pencilMarks: Record<string, CategoryColor[]> = {}
+  for (const [word, colors] of Object.entries(saved.pencilMarks ?? {})) {
+    const valid = Array.isArray(colors) ? colors.filter(isCategoryColor) : []
+    if (valid.length > 0) pencilMarks[word] = valid
+  }
+
+  const timer = isTimerState(saved.timer)
+    ? { elapsedMs: Math.max(0, saved.timer.elapsedMs), finished: saved.timer.finished }
+    : INITIAL_TIMER
+
+  return { tiles, wordColors, oneAwayWords, tileOffsets, guesses, pencilMarks, timer }
+}
+
+export function loadBoardState(key: string): StoredBoard | null {
+  try {
+    const stored = localStorage.getItem(STORAGE_PREFIX + key)
+    return stored ? migrateBoardState(JSON.parse(stored)) : null
+  } catch {
+    return null
+  }
+}
+
+export function saveBoardState(key: string, state: BoardState, timer: TimerState) {
+  const saved: SavedBoardState = {
+    version: BOARD_STATE_VERSION,
+    savedAt: new Date().toISOString(),
+    tiles: state.tiles,
+    wordColors: state.wordColors,
+    oneAwayWords: Array.from(state.oneAwayWords.entries()),
+    tileOffsets: state.tileOffsets,
+    guesses: state.guesses,
+    timer,
+    pencilMarks: state.pencilMarks,
+  }
+  try {
+    localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(saved))
+  } catch {
+    // Storage full or unavailable (private mode) - progress just won't persist
+  }
+}
+
+export function clearBoardState(key: string) {
+  try {
+    localStorage.removeItem(STORAGE_PREFIX + key)
+  } catch {
+    // Ignore - nothing to clear if storage is unavailable
+  }
+}
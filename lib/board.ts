@@ -0,0 +1,18 @@
+export interface Tile {
+  id: string    // Stable unique ID for animation tracking
+  word: string  // The word content
+}
+
+// Where a tile has been dragged to, relative to its grid slot
+export interface TileOffset {
+  x: number
+  y: number
+}
+
+// Helper to create tiles with stable IDs
+export function createTiles(words: string[]): Tile[] {
+  return words.map((word, index) => ({
+    id: `tile-${index}`,
+    word,
+  }))
+}
@@ -0,0 +1,58 @@
+export const CATEGORY_COLORS = {
+  yellow: { bg: "#f9df6d", text: "#1a1a1a", label: "Yellow (Easiest)", oneAwayDot: "#b8860b", oneAwayText: "#8b6914", oneAwayRing: "#d4a017" },
+  green: { bg: "#a0c35a", text: "#1a1a1a", label: "Green (Medium)", oneAwayDot: "#2d5a27", oneAwayText: "#2d5a27", oneAwayRing: "#3d7a37" },
+  blue: { bg: "#b0c4ef", text: "#1a1a1a", label: "Blue (Hard)", oneAwayDot: "#1e4d8c", oneAwayText: "#1e4d8c", oneAwayRing: "#2e6dbc" },
+  purple: { bg: "#ba81c5", text: "#1a1a1a", label: "Purple (Tricky)", oneAwayDot: "#6b2d7b", oneAwayText: "#6b2d7b", oneAwayRing: "#8b4d9b" },
+} as const
+
+export type CategoryColor = keyof typeof CATEGORY_COLORS
+
+export interface CategoryColorConfig {
+  bg: string
+  text: string
+  label: string
+  oneAwayDot: string
+  oneAwayText: string
+  oneAwayRing: string
+}
+
+export type Palette = Record<CategoryColor, CategoryColorConfig>
+
+// Difficulty order, easiest first
+export const CATEGORY_ORDER: CategoryColor[] = ["yellow", "green", "blue", "purple"]
+
+export function isCategoryColor(value: unknown): value is CategoryColor {
+  // Not `in`: that would also accept inherited keys like "toString"
+  return typeof value === "string" && (CATEGORY_ORDER as string[]).includes(value)
+}
+
+// Alternative palettes keep the group names but swap the hues. The colorblind set is
+// based on Okabe-Ito, which stays distinct under deuteranopia and protanopia.
+export const PALETTES = {
+  default: { name: "Classic", colors: CATEGORY_COLORS },
+  colorblind: {
+    name: "Colorblind-safe",
+    colors: {
+      yellow: { ...CATEGORY_COLORS.yellow, bg: "#f0e442", text: "#1a1a1a", oneAwayDot: "#7a7000", oneAwayText: "#5c5400", oneAwayRing: "#b3a800" },
+      green: { ...CATEGORY_COLORS.green, bg: "#009e73", text: "#ffffff", oneAwayDot: "#00402e", oneAwayText: "#e6fff7", oneAwayRing: "#00664a" },
+      blue: { ...CATEGORY_COLORS.blue, bg: "#56b4e9", text: "#1a1a1a", oneAwayDot: "#0b4f7a", oneAwayText: "#0b4f7a", oneAwayRing: "#1f78b4" },
+      purple: { ...CATEGORY_COLORS.purple, bg: "#cc79a7", text: "#1a1a1a", oneAwayDot: "#6e2350", oneAwayText: "#6e2350", oneAwayRing: "#9e3f75" },
+    },
+  },
+  "high-contrast": {
+    name: "High contrast",
+    colors: {
+      yellow: { ...CATEGORY_COLORS.yellow, bg: "#ffe600", text: "#000000", oneAwayDot: "#000000", oneAwayText: "#000000", oneAwayRing: "#000000" },
+      green: { ...CATEGORY_COLORS.green, bg: "#007a1f", text: "#ffffff", oneAwayDot: "#ffffff", oneAwayText: "#ffffff", oneAwayRing: "#ffffff" },
+      blue: { ...CATEGORY_COLORS.blue, bg: "#0047cc", text: "#ffffff", oneAwayDot: "#ffffff", oneAwayText: "#ffffff", oneAwayRing: "#ffffff" },
+      purple: { ...CATEGORY_COLORS.purple, bg: "#8a00b8", text: "#ffffff", oneAwayDot: "#ffffff", oneAwayText: "#ffffff", oneAwayRing: "#ffffff" },
+    },
+  },
+} satisfies Record<string, { name: string; colors: Palette }>
+
+export type PaletteId = keyof typeof PALETTES
+
+export function isPaletteId(value: unknown): value is PaletteId {
+  // Own keys only, so "toString" and "constructor" aren't palettes
+  return typeof value === "string" && Object.hasOwn(PALETTES, value)
+}
@@ -0,0 +1,150 @@
+import { decodeBase64Url, encodeBase64Url } from "@/lib/base64url"
+import { CATEGORY_COLORS, CATEGORY_ORDER, type CategoryColor } from "@/lib/categories"
+import type { PuzzleCategory } from "@/lib/puzzle/types"
+
+// Puzzles made in the builder travel whole in a link (#p=...) or as the bare
+// code: categories, difficulty and words. The answer is inside the code, so
+// checking works without a server - base64 keeps it from casual view, nothing more.
+const CUSTOM_PUZZLE_VERSION = 1
+const HASH_PREFIX = "#p="
+
+// One category being edited in the builder
+export interface CategoryDraft {
+  title: string
+  color: CategoryColor
+  words: string[] // Always four slots; blanks are allowed while editing
+}
+
+interface CustomPuzzlePayload {
+  v: number
+  c: { t: string; l: number; w: string[] }[]
+}
+
+export function createEmptyDrafts(): CategoryDraft[] {
+  return CATEGORY_ORDER.map(color => ({ title: "", color, words: ["", "", "", ""] }))
+}
+
+export const normalizeWord = (word: string) => word.trim().toUpperCase()
+
+// Everything wrong with the draft, worded for the builder. Empty means ready to play.
+export function validateDrafts(drafts: CategoryDraft[]): string[] {
+  const errors: string[] = []
+
+  drafts.forEach((draft, index) => {
+    const name = draft.title.trim() || `Category ${index + 1}`
+    if (!draft.title.trim()) {
+      errors.push(`Category ${index + 1} needs a name.`)
+    }
+    const filled = draft.words.filter(word => normalizeWord(word)).length
+    if (filled !== 4) {
+      errors.push(`${name} has ${filled} of 4 words.`)
+    }
+  })
+
+  const words = drafts.flatMap(draft => draft.words.map(normalizeWord)).filter(Boolean)
+  const duplicates = [...new Set(words.filter((word, i) => words.indexOf(word) !== i))]
+  if (duplicates.length > 0) {
+    errors.push(`Each word can only appear once: ${duplicates.join(", ")}.`)
+  }
+  if (errors.length === 0 && new Set(words).size !== 16) {
+    errors.push("A puzzle needs exactly 16 different words.")
+  }
+
+  const colors = drafts.map(draft => draft.color)
+  for (const color of CATEGORY_ORDER) {
+    if (colors.filter(c => c === color).length > 1) {
+      errors.push(`Only one category can be ${CATEGORY_COLORS[color].label}.`)
+    }
+  }
+
+  return errors
+}
+
+// Assumes the drafts are valid; level follows the chosen color (0 = yellow ... 3 = purple)
+export function draftsToCategories(drafts: CategoryDraft[]): PuzzleCategory[] {
+  return drafts
+    .map(draft => ({
+      title: draft.title.trim(),
+      level: CATEGORY_ORDER.indexOf(draft.color),
+      words: draft.words.map(normalizeWord),
+    }))
+    .sort((a, b) => a.level - b.level)
+}
+
+export function categoriesToDrafts(categories: PuzzleCategory[]): CategoryDraft[] {
+  return categories.map(category => ({
+    title: category.title,
+    color: CATEGORY_ORDER[category.level] ?? "yellow",
+    words: [...category.words],
+  }))
+}
+
+export function encodeCustomPuzzle(categories: PuzzleCategory[]): string {
+  const payload: CustomPuzzlePayload = {
+    v: CUSTOM_PUZZLE_VERSION,
+    c: categories.map(category => ({ t: category.title, l: category.level, w: category.words })),
+  }
+  return encodeBase64Url(JSON.stringify(payload))
+}
+
+// Null for malformed codes, invalid puzzles, or codes from a newer format
+export function decodeCustomPuzzle(code: string): PuzzleCategory[] | null {
+  let payload: Partial<CustomPuzzlePayload>
+  try {
+    payload = JSON.parse(decodeBase64Url(code.trim()))
+  } catch {
+    return null
+  }
+
+  if (typeof payload !== "object" || payload === null || payload.v !== CUSTOM_PUZZLE_VERSION) return null
+  if (!Array.isArray(payload.c) || payload.c.length !== 4) return null
+
+  const drafts: CategoryDraft[] = []
+  for (const category of payload.c) {
+    if (
+      typeof category?.t !== "string" || !Number.isInteger(category.l) || !CATEGORY_ORDER[category.l]
+      || !Array.isArray(category.w) || category.w.length !== 4
+      || !category.w.every(word => typeof word === "string" && word.trim().length > 0)
+    ) {
+      return null
+    }
+    drafts.push({ title: category.t, color: CATEGORY_ORDER[category.l], words: category.w })
+  }
+
+  return validateDrafts(drafts).length === 0 ? draftsToCategories(drafts) : null
+}
+
+export function buildCustomPuzzleUrl(origin: string, code: string): string {
+  return `${origin}/${HASH_PREFIX}${code}`
+}
+
+// The custom puzzle code in a location hash, if there is one
+export function readCustomPuzzleHash(hash: string): string | null {
+  return hash.startsWith(HASH_PREFIX) ? hash.slice(HASH_PREFIX.length) : null
+}
+
+// Small seeded PRNG (mulberry32), so a puzzle code always deals the same grid
+function createRandom(seed: string): () => number {
+  let state = 0
+  for (let i = 0; i < seed.length; i++) {
+    state = (Math.imul(31, state) + seed.charCodeAt(i)) | 0
+  }
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// The words in a shuffled order that stays the same for the same code, so saved
+// progress lines up when the puzzle is opened again
+export function dealWords(categories: PuzzleCategory[], code: string): string[] {
+  const random = createRandom(code)
+  const words = categories.flatMap(category => category.words)
+  for (let i = words.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[words[i], words[j]] = [words[j], words[i]]
+  }
+  return words
+}
@@ -0,0 +1,40 @@
+import type { CategoryColor } from "@/lib/categories"
+
+// The real game allows four mistakes before it's over
+export const MAX_MISTAKES = 4
+
+export type GuessResult = "correct" | "one-away" | "wrong"
+
+export interface Guess {
+  color: CategoryColor // The color group the user submitted
+  words: string[]
+  result: GuessResult
+  title?: string // Category title, when the answer key confirmed the group
+}
+
+export const GUESS_RESULT_LABELS: Record<GuessResult, string> = {
+  correct: "Correct",
+  "one-away": "One away",
+  wrong: "Wrong",
+}
+
+export function isGuessResult(value: unknown): value is GuessResult {
+  return value === "correct" || value === "one-away" || value === "wrong"
+}
+
+export function countMistakes(guesses: Guess[]): number {
+  return guesses.filter(g => g.result !== "correct").length
+}
+
+export function getSolvedColors(guesses: Guess[]): CategoryColor[] {
+  return guesses.filter(g => g.result === "correct").map(g => g.color)
+}
+
+// Same four words in any order counts as the same guess
+export function isSameGroup(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every(word => b.includes(word))
+}
+
+export function isGameOver(guesses: Guess[]): boolean {
+  return countMistakes(guesses) >= MAX_MISTAKES || getSolvedColors(guesses).length === 4
+}
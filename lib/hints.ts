@@ -0,0 +1,45 @@
+// Hints get progressively more revealing, one tier at a time per category
+export const HINT_TIERS = [
+  { tier: 1, label: "Nudge" },
+  { tier: 2, label: "Reveal a word" },
+  { tier: 3, label: "Reveal the category" },
+  { tier: 4, label: "Reveal the group" },
+] as const
+
+export const MAX_HINT_TIER = HINT_TIERS.length
+
+export interface HintRecord {
+  level: number // Category difficulty, 0 (yellow) to 3 (purple)
+  tier: number
+  text: string
+  words?: string[] // Words revealed by this hint
+}
+
+const STORAGE_PREFIX = "purple-hunter:hints:"
+
+// Hints are kept apart from the board so undo/reset can't take them back
+export function loadHints(key: string): HintRecord[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_PREFIX + key)
+    const parsed: unknown = stored ? JSON.parse(stored) : []
+    return Array.isArray(parsed)
+      ? parsed.filter((h): h is HintRecord =>
+          typeof h?.level === "number" && typeof h?.tier === "number" && typeof h?.text === "string")
+      : []
+  } catch {
+    return []
+  }
+}
+
+export function saveHints(key: string, hints: HintRecord[]) {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(hints))
+  } catch {
+    // Storage unavailable - hint usage just won't persist
+  }
+}
+
+// Highest tier revealed so far for a category (0 = none)
+export function getHintTier(hints: HintRecord[], level: number): number {
+  return hints.filter(h => h.level === level).reduce((max, h) => Math.max(max, h.tier), 0)
+}
@@ -0,0 +1,68 @@
+import type { Tile, TileOffset } from "@/lib/board"
+import { isCategoryColor, type CategoryColor } from "@/lib/categories"
+
+// Named scratch arrangements of one puzzle ("theory A: sports"), kept apart from the
+// board state so Shuffle, Reset and undo never touch them. Stored per board key.
+
+const STORAGE_PREFIX = "purple-hunter:layouts:"
+
+export const MAX_LAYOUT_NAME_LENGTH = 40
+
+export interface Layout {
+  name: string // Unique per puzzle, ignoring case
+  savedAt: string
+  tiles: Tile[] // Grid order
+  tileOffsets: Record<string, TileOffset>
+  wordColors: Record<string, CategoryColor>
+  pencilMarks: Record<string, CategoryColor[]>
+}
+
+function isLayout(value: unknown): value is Layout {
+  const layout = value as Layout
+  return typeof layout === "object" && layout !== null
+    && typeof layout.name === "string" && typeof layout.savedAt === "string"
+    && Array.isArray(layout.tiles) && layout.tiles.every(t => typeof t?.id === "string" && typeof t?.word === "string")
+    && typeof layout.tileOffsets === "object" && layout.tileOffsets !== null
+    && Object.values(layout.tileOffsets).every(o => typeof o?.x === "number" && typeof o?.y === "number")
+    && typeof layout.wordColors === "object" && layout.wordColors !== null
+    && Object.values(layout.wordColors).every(isCategoryColor)
+    && typeof layout.pencilMarks === "object" && layout.pencilMarks !== null
+    && Object.values(layout.pencilMarks).every(colors => Array.isArray(colors) && colors.every(isCategoryColor))
+}
+
+// Only the same tiles (same IDs and words) can take a layout's order and positions
+export function fitsTiles(layout: Layout, tiles: Tile[]): boolean {
+  return layout.tiles.length === tiles.length
+    && layout.tiles.every(t => tiles.some(n => n.id === t.id && n.word === t.word))
+}
+
+export const isSameLayoutName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase()
+
+export function loadLayouts(key: string): Layout[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_PREFIX + key)
+    const parsed: unknown = stored ? JSON.parse(stored) : []
+    return Array.isArray(parsed) ? parsed.filter(isLayout) : []
+  } catch {
+    return []
+  }
+}
+
+export function saveLayouts(key: string, layouts: Layout[]) {
+  try {
+    if (layouts.length === 0) {
+      localStorage.removeItem(STORAGE_PREFIX + key)
+    } else {
+      localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(layouts))
+    }
+  } catch {
+    // Storage full or unavailable (private mode) - layouts last until the page closes
+  }
+}
+
+// Save under this name, replacing any layout already called that
+export function upsertLayout(layouts: Layout[], layout: Layout): Layout[] {
+  const index = layouts.findIndex(l => isSameLayoutName(l.name, layout.name))
+  if (index === -1) return [...layouts, layout]
+  return layouts.map((l, i) => i === index ? layout : l)
+}
@@ -0,0 +1,115 @@
+// Browser side of the push reminders (server side lives in lib/push)
+
+const PLAYED_KEY = "purple-hunter:push:played"
+
+export interface NotificationPreferences {
+  newPuzzle: boolean
+  reminderTime: string | null // "HH:MM", local time
+}
+
+export function isPushSupported(): boolean {
+  return typeof window !== "undefined"
+    && "serviceWorker" in navigator && "PushManager" in window && "Notification" in window
+}
+
+async function getRegistration(): Promise<ServiceWorkerRegistration> {
+  const registration = await navigator.serviceWorker.getRegistration()
+  if (!registration) {
+    // The worker is only registered in production builds (see components/service-worker.tsx)
+    throw new Error("Notifications need the app's service worker, which isn't running yet. Try reloading.")
+  }
+  return registration
+}
+
+async function getExistingSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null
+  const registration = await navigator.serviceWorker.getRegistration()
+  return registration ? registration.pushManager.getSubscription() : null
+}
+
+// What this server can send. Unknown (offline, or an old server) counts as nothing.
+export async function getPushCapabilities(): Promise<{ available: boolean; reminders: boolean }> {
+  try {
+    const response = await fetch("/api/push/subscribe")
+    const body = await response.json()
+    return { available: Boolean(body?.publicKey), reminders: body?.reminders === true }
+  } catch {
+    return { available: false, reminders: false }
+  }
+}
+
+async function subscribe(): Promise<PushSubscription> {
+  const registration = await getRegistration()
+  const existing = await registration.pushManager.getSubscription()
+  if (existing) return existing
+
+  const response = await fetch("/api/push/subscribe")
+  const { publicKey } = await response.json().catch(() => ({ publicKey: null }))
+  if (!publicKey) {
+    throw new Error("Notifications aren't set up on this server.")
+  }
+
+  if (await Notification.requestPermission() !== "granted") {
+    throw new Error("Notifications are blocked. Allow them for this site in your browser settings.")
+  }
+
+  // Older Safari only takes the key as bytes, not a base64url string
+  const base64 = (publicKey as string).replace(/-/g, "+").replace(/_/g, "/")
+  const applicationServerKey = Uint8Array.from(atob(base64), c => c.charCodeAt(0))
+  return registration.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey })
+}
+
+// Subscribe, update or unsubscribe this device to match the chosen notifications
+export async function updateNotifications(preferences: NotificationPreferences): Promise<void> {
+  if (!isPushSupported()) {
+    throw new Error("This browser doesn't support notifications. On iPhone, add Purple Hunter to your Home Screen first.")
+  }
+
+  if (!preferences.newPuzzle && !preferences.reminderTime) {
+    const existing = await getExistingSubscription()
+    if (!existing) return
+    await fetch("/api/push/subscribe", {
+      method: "DELETE",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ endpoint: existing.endpoint }),
+    })
+    await existing.unsubscribe()
+    return
+  }
+
+  const subscription = await subscribe()
+  const response = await fetch("/api/push/subscribe", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      subscription: subscription.toJSON(),
+      ...preferences,
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    }),
+  })
+  if (!response.ok) {
+    const body = await response.json().catch(() => null)
+    throw new Error(body?.message || "Could not save notification settings")
+  }
+}
+
+// Tell the server this device played a puzzle date, so today's reminder is skipped.
+// Only reported once per date.
+export async function reportPlayed(date: string) {
+  try {
+    if (localStorage.getItem(PLAYED_KEY) === date) return
+    const subscription = await getExistingSubscription()
+    if (!subscription) return
+
+    const response = await fetch("/api/push/played", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ endpoint: subscription.endpoint, date }),
+    })
+    if (response.ok) {
+      localStorage.setItem(PLAYED_KEY, date)
+    }
+  } catch (error) {
+    console.error("Error reporting play:", error)
+  }
+}
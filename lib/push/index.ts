@@ -0,0 +1,89 @@
+import path from "path"
+import { getRedis, isServerless } from "@/lib/redis"
+import { createFileStore, createMemoryStore, createRedisStore } from "@/lib/push/store"
+import { createLogSender, createWebPushSender, type VapidKeys } from "@/lib/push/senders"
+import type { PushSender, PushStore } from "@/lib/push/types"
+
+// Configuration (all optional - without VAPID keys, pushes are only logged):
+//   VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY  base64url P-256 key pair
+//   VAPID_SUBJECT      contact for push services, default "mailto:hello@purplehunter.app"
+//   PUSH_SENDER        "webpush" (default when keys are set) or "log"
+//   PUSH_STORE         "redis", "file" or "memory". Default: redis when configured (see
+//                      lib/redis), else file - except on serverless hosts, where push is
+//                      unavailable without redis
+//   PUSH_STORE_PATH    default ".push-subscriptions.json"
+//   CRON_SECRET        Bearer token /api/push/send requires; without it the job only runs in development
+//   PUSH_JOB_INTERVAL_MINUTES  how often the scheduler calls /api/push/send, default 1440
+//                      (vercel.json's daily run). Reminder times are only offered at 60 or less
+const DEFAULT_SUBJECT = "mailto:hello@purplehunter.app"
+const DEFAULT_JOB_INTERVAL_MINUTES = 24 * 60
+// Reminders go out at the first run after their time, so this is how late one can be
+const MAX_REMINDER_DELAY_MINUTES = 60
+
+function getVapidKeys(): VapidKeys | null {
+  const publicKey = process.env.VAPID_PUBLIC_KEY
+  const privateKey = process.env.VAPID_PRIVATE_KEY
+  if (!publicKey || !privateKey) return null
+  return { publicKey, privateKey, subject: process.env.VAPID_SUBJECT || DEFAULT_SUBJECT }
+}
+
+// Browsers need the public key to subscribe; null means push isn't set up
+export function getVapidPublicKey(): string | null {
+  return getPush().store ? getVapidKeys()?.publicKey ?? null : null
+}
+
+// Whether the job runs often enough to send a reminder close to the time a player picks
+export function canScheduleReminders(): boolean {
+  const interval = Number(process.env.PUSH_JOB_INTERVAL_MINUTES || DEFAULT_JOB_INTERVAL_MINUTES)
+  return getVapidPublicKey() !== null && interval > 0 && interval <= MAX_REMINDER_DELAY_MINUTES
+}
+
+function createSender(): PushSender {
+  const keys = getVapidKeys()
+  if (process.env.PUSH_SENDER === "log") {
+    return createLogSender()
+  }
+  if (!keys) {
+    if (process.env.PUSH_SENDER === "webpush") {
+      console.warn("PUSH_SENDER=webpush needs VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY; logging pushes instead")
+    }
+    return createLogSender()
+  }
+  return createWebPushSender(keys)
+}
+
+// Null when there's nowhere to keep subscriptions that every request can see
+function createStore(): PushStore | null {
+  const redis = getRedis()
+  const createFile = () => createFileStore(path.resolve(process.env.PUSH_STORE_PATH || ".push-subscriptions.json"))
+
+  switch (process.env.PUSH_STORE) {
+    case "memory":
+      return createMemoryStore()
+    case "file":
+      return createFile()
+    case "redis":
+      if (!redis) {
+        console.warn("PUSH_STORE=redis needs UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN; push is unavailable")
+      }
+      return redis ? createRedisStore(redis) : null
+    default:
+      if (redis) return createRedisStore(redis)
+      if (isServerless()) {
+        console.warn("Push notifications need Redis on serverless hosts (see lib/redis); push is unavailable")
+        return null
+      }
+      return createFile()
+  }
+}
+
+// Built lazily, like the puzzle chain, so env changes apply on the first request
+let push: { store: PushStore | null; sender: PushSender } | null = null
+
+export function getPush() {
+  push ??= { store: createStore(), sender: createSender() }
+  return push
+}
+
+export { runPushJob, type PushJobSummary } from "@/lib/push/job"
+export type { PushMessage, PushPreferences, PushSender, PushStore, StoredSubscription } from "@/lib/push/types"
@@ -0,0 +1,93 @@
+import { calculatePuzzleNumber, getTodayET } from "@/lib/puzzle-dates"
+import type { PushMessage, PushSender, PushStore, StoredSubscription } from "@/lib/push/types"
+
+export interface PushJobSummary {
+  date: string
+  sent: number
+  removed: number
+  failed: number
+}
+
+// "HH:MM" wall-clock time in a time zone, or null if the zone isn't valid
+function getLocalTime(now: Date, timeZone: string): string | null {
+  try {
+    return new Intl.DateTimeFormat("en-GB", {
+      timeZone,
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    }).format(now)
+  } catch {
+    return null
+  }
+}
+
+// What (if anything) a subscriber is due right now. Each kind goes out at most
+// once per ET puzzle date, so the job can run as often as the scheduler allows.
+function getDueMessage(subscription: StoredSubscription, today: string, now: Date, reminders: boolean): {
+  message: PushMessage
+  mark: Partial<StoredSubscription>
+} | null {
+  if (subscription.newPuzzle && subscription.lastNotifiedDate !== today) {
+    return {
+      message: {
+        title: "A new puzzle is live",
+        body: `Puzzle #${calculatePuzzleNumber(today)} is ready to hunt.`,
+        url: "/",
+        tag: "new-puzzle",
+      },
+      mark: { lastNotifiedDate: today },
+    }
+  }
+
+  const localTime = getLocalTime(now, subscription.timeZone)
+  if (
+    reminders && subscription.reminderTime && localTime && localTime >= subscription.reminderTime
+    && subscription.lastPlayedDate !== today && subscription.lastRemindedDate !== today
+  ) {
+    return {
+      message: {
+        title: "You haven't played today",
+        body: `Puzzle #${calculatePuzzleNumber(today)} is still waiting for you.`,
+        url: "/",
+        tag: "reminder",
+      },
+      mark: { lastRemindedDate: today },
+    }
+  }
+
+  return null
+}
+
+// One pass over every subscriber: send what's due, forget expired subscriptions.
+// With `reminders: false` (the job runs too rarely to honor their times) only new-puzzle
+// notifications go out.
+export async function runPushJob(
+  store: PushStore,
+  sender: PushSender,
+  { now = new Date(), reminders = true }: { now?: Date; reminders?: boolean } = {}
+): Promise<PushJobSummary> {
+  const today = getTodayET(now)
+  const summary: PushJobSummary = { date: today, sent: 0, removed: 0, failed: 0 }
+
+  for (const subscription of await store.list()) {
+    const due = getDueMessage(subscription, today, now, reminders)
+    if (!due) continue
+
+    try {
+      const result = await sender.send(subscription, due.message)
+      if (result === "gone") {
+        await store.remove(subscription.endpoint)
+        summary.removed++
+      } else {
+        await store.save({ ...subscription, ...due.mark })
+        summary.sent++
+      }
+    } catch (error) {
+      console.error(`Push to ${subscription.endpoint} failed:`, error)
+      summary.failed++
+    }
+  }
+
+  return summary
+}
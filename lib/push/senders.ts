@@ -0,0 +1,46 @@
+import webpush, { WebPushError } from "web-push"
+import type { PushSender } from "@/lib/push/types"
+
+export interface VapidKeys {
+  publicKey: string // Uncompressed P-256 point, base64url
+  privateKey: string // P-256 private scalar, base64url
+  subject: string // mailto: or https: contact for push services
+}
+
+// How long push services should hold a message for an offline device
+const TTL_SECONDS = 60 * 60 * 12
+
+// Sends straight to the browser's push service; web-push handles the payload
+// encryption (RFC 8291) and VAPID signing
+export function createWebPushSender(keys: VapidKeys): PushSender {
+  const vapidDetails = { subject: keys.subject, publicKey: keys.publicKey, privateKey: keys.privateKey }
+  return {
+    name: "webpush",
+    async send(subscription, message) {
+      try {
+        await webpush.sendNotification(
+          { endpoint: subscription.endpoint, keys: subscription.keys },
+          JSON.stringify(message),
+          { vapidDetails, TTL: TTL_SECONDS, contentEncoding: "aes128gcm" }
+        )
+        return "sent"
+      } catch (error) {
+        if (error instanceof WebPushError && (error.statusCode === 404 || error.statusCode === 410)) {
+          return "gone"
+        }
+        throw error
+      }
+    },
+  }
+}
+
+// Local development stand-in: logs what would have been sent
+export function createLogSender(): PushSender {
+  return {
+    name: "log",
+    async send(subscription, message) {
+      console.log(`[push] ${message.title} - ${message.body} -> ${subscription.endpoint}`)
+      return "sent"
+    },
+  }
+}
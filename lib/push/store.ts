@@ -0,0 +1,91 @@
+import { mkdir, readFile, writeFile } from "fs/promises"
+import path from "path"
+import type { Redis } from "@upstash/redis"
+import type { PushStore, StoredSubscription } from "@/lib/push/types"
+
+const REDIS_KEY = "purple-hunter:push:subscriptions"
+
+export function createMemoryStore(): PushStore {
+  const subscriptions = new Map<string, StoredSubscription>()
+  return {
+    async list() {
+      return Array.from(subscriptions.values())
+    },
+    async get(endpoint) {
+      return subscriptions.get(endpoint) ?? null
+    },
+    async save(subscription) {
+      subscriptions.set(subscription.endpoint, subscription)
+    },
+    async remove(endpoint) {
+      subscriptions.delete(endpoint)
+    },
+  }
+}
+
+// One hash field per endpoint, so saves and removals never overwrite each other
+export function createRedisStore(redis: Redis): PushStore {
+  return {
+    async list() {
+      const all = await redis.hgetall<Record<string, StoredSubscription>>(REDIS_KEY)
+      return all ? Object.values(all) : []
+    },
+    async get(endpoint) {
+      return (await redis.hget<StoredSubscription>(REDIS_KEY, endpoint)) ?? null
+    },
+    async save(subscription) {
+      await redis.hset(REDIS_KEY, { [subscription.endpoint]: subscription })
+    },
+    async remove(endpoint) {
+      await redis.hdel(REDIS_KEY, endpoint)
+    },
+  }
+}
+
+// All subscriptions in one JSON file, rewritten on every change - fine for the
+// handful of devices a single self-hosted server handles. Changes are queued so
+// two requests never read-modify-write at once; a failed write throws.
+export function createFileStore(filePath: string): PushStore {
+  let queue: Promise<unknown> = Promise.resolve()
+  const exclusive = <T>(change: () => Promise<T>): Promise<T> => {
+    const run = queue.then(change)
+    queue = run.catch(() => {})
+    return run
+  }
+
+  const read = async (): Promise<StoredSubscription[]> => {
+    try {
+      const parsed: unknown = JSON.parse(await readFile(filePath, "utf8"))
+      return Array.isArray(parsed) ? parsed : []
+    } catch {
+      return []
+    }
+  }
+
+  const write = async (subscriptions: StoredSubscription[]) => {
+    try {
+      await mkdir(path.dirname(filePath), { recursive: true })
+      await writeFile(filePath, JSON.stringify(subscriptions, null, 2))
+    } catch (error) {
+      throw new Error(`Could not write push subscriptions to ${filePath}`, { cause: error })
+    }
+  }
+
+  return {
+    list: read,
+    async get(endpoint) {
+      return (await read()).find(s => s.endpoint === endpoint) ?? null
+    },
+    save(subscription) {
+      return exclusive(async () => {
+        const others = (await read()).filter(s => s.endpoint !== subscription.endpoint)
+        await write([...others, subscription])
+      })
+    },
+    remove(endpoint) {
+      return exclusive(async () => {
+        await write((await read()).filter(s => s.endpoint !== endpoint))
+      })
+    },
+  }
+}
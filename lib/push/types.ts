@@ -0,0 +1,44 @@
+// The keys a browser hands out with a push subscription (base64url)
+export interface PushSubscriptionKeys {
+  p256dh: string
+  auth: string
+}
+
+export interface PushPreferences {
+  newPuzzle: boolean // Notify when the day's puzzle goes live at midnight ET
+  reminderTime: string | null // "HH:MM" in the subscriber's time zone, or null for no reminder
+  timeZone: string // IANA zone the reminder time is in
+}
+
+// One browser that opted in, plus what it has already been sent
+export interface StoredSubscription extends PushPreferences {
+  endpoint: string
+  keys: PushSubscriptionKeys
+  lastPlayedDate: string | null // ET puzzle date the subscriber last played
+  lastNotifiedDate: string | null // ET date of the last new-puzzle notification
+  lastRemindedDate: string | null // ET date of the last "haven't played" reminder
+  createdAt: string
+}
+
+// What the service worker shows
+export interface PushMessage {
+  title: string
+  body: string
+  url: string
+  tag: string // Newer notifications with the same tag replace older ones
+}
+
+// "gone" means the subscription expired or was revoked and should be forgotten
+export type PushSendResult = "sent" | "gone"
+
+export interface PushSender {
+  name: string
+  send: (subscription: StoredSubscription, message: PushMessage) => Promise<PushSendResult>
+}
+
+export interface PushStore {
+  list: () => Promise<StoredSubscription[]>
+  get: (endpoint: string) => Promise<StoredSubscription | null>
+  save: (subscription: StoredSubscription) => Promise<void>
+  remove: (endpoint: string) => Promise<void>
+}
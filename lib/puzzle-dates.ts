@@ -0,0 +1,81 @@
+// Connections launched on June 12, 2023 (puzzle #1)
+export const LAUNCH_DATE = "2023-06-12"
+
+const DAY_MS = 1000 * 60 * 60 * 24
+
+// Get today's date in ET timezone (where NYT publishes)
+export function getTodayET(now: Date = new Date()): string {
+  const etOptions: Intl.DateTimeFormatOptions = {
+    timeZone: "America/New_York",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit"
+  }
+  const etParts = new Intl.DateTimeFormat("en-CA", etOptions).format(now)
+  return etParts // Returns YYYY-MM-DD format
+}
+
+// Calculate the actual puzzle number based on days since launch
+export function calculatePuzzleNumber(dateStr: string): number {
+  const launchDate = new Date(LAUNCH_DATE)
+  const puzzleDate = new Date(dateStr)
+  const diffTime = puzzleDate.getTime() - launchDate.getTime()
+  const diffDays = Math.floor(diffTime / DAY_MS)
+  return diffDays + 1 // +1 because launch day was puzzle #1
+}
+
+// Reverse of calculatePuzzleNumber: puzzle #1 is the launch date
+export function puzzleNumberToDate(id: number): string {
+  const launchDate = new Date(LAUNCH_DATE)
+  return new Date(launchDate.getTime() + (id - 1) * DAY_MS).toISOString().slice(0, 10)
+}
+
+// Move a YYYY-MM-DD date by a number of days
+export function shiftDate(dateStr: string, days: number): string {
+  const date = new Date(dateStr)
+  return new Date(date.getTime() + days * DAY_MS).toISOString().slice(0, 10)
+}
+
+// Strict YYYY-MM-DD check that also rejects impossible dates like 2024-02-31
+export function isValidDateString(dateStr: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) return false
+  const date = new Date(dateStr)
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === dateStr
+}
+
+// Whether a puzzle has been published for this date (launch day through today, ET)
+export function isPublishedDate(dateStr: string, today: string = getTodayET()): boolean {
+  return dateStr >= LAUNCH_DATE && dateStr <= today
+}
+
+// Resolve a requested puzzle date from a date (YYYY-MM-DD) or puzzle id (defaults to today)
+export function resolvePuzzleDate(
+  dateParam: string | null | undefined,
+  idParam: string | number | null | undefined
+): { date: string } | { error: string } {
+  if (dateParam && idParam) {
+    return { error: "Use either date or id, not both" }
+  }
+
+  if (idParam) {
+    const id = Number(idParam)
+    if (!Number.isInteger(id) || id < 1) {
+      return { error: "Puzzle id must be a positive whole number" }
+    }
+    // Checked before converting: huge ids make dates out of Date's range
+    const latest = calculatePuzzleNumber(getTodayET())
+    if (id > latest) {
+      return { error: `Puzzle id must be at most ${latest}, today's puzzle` }
+    }
+    return { date: puzzleNumberToDate(id) }
+  }
+
+  if (dateParam) {
+    if (!isValidDateString(dateParam)) {
+      return { error: "Date must be in YYYY-MM-DD format" }
+    }
+    return { date: dateParam }
+  }
+
+  return { date: getTodayET() }
+}
@@ -0,0 +1,278 @@
+import { CATEGORY_ORDER, type CategoryColor } from "@/lib/categories"
+import { categoriesToDrafts, normalizeWord, validateDrafts } from "@/lib/custom-puzzle"
+import { CATEGORY_EMOJI } from "@/lib/share"
+import { normalizeGitHubPuzzle, type GitHubPuzzle } from "@/lib/puzzle/sources/github-archive"
+import { normalizeNYTPuzzle, type NYTPuzzleResponse } from "@/lib/puzzle/sources/nyt"
+import type { PuzzleCategory } from "@/lib/puzzle/types"
+
+// Puzzles pasted or uploaded in the Import sheet. The format is detected from the
+// text itself:
+//   github  one puzzle from the community archive (or an array holding one)
+//   nyt     the NYT connections API response
+//   csv     a header with category and word columns (one word per row), or one
+//           row per category: name then four words. Tabs work too, for spreadsheet pastes.
+//   text    "Name: A, B, C, D" lines, optionally led by a color or 🟨, or just 16 words
+export type ImportFormat = "github" | "nyt" | "csv" | "text"
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+  github: "Puzzle archive JSON",
+  nyt: "NYT puzzle JSON",
+  csv: "CSV",
+  text: "Text list",
+}
+
+export interface ImportedPuzzle {
+  format: ImportFormat
+  words: string[]
+  categories: PuzzleCategory[] | null // Null when the source only has the words
+  date?: string // From the JSON formats, for the preview
+}
+
+export type ImportResult = { puzzle: ImportedPuzzle } | { error: string }
+
+const CATEGORY_HEADERS = ["category", "group", "connection", "theme", "title"]
+const WORD_HEADERS = ["word", "words", "member", "members", "item", "answer"]
+const LEVEL_HEADERS = ["level", "difficulty", "color", "colour"]
+
+// Emoji and color names that can lead a text line or fill a level column
+const LEVEL_NAMES: Record<string, CategoryColor> = {
+  ...Object.fromEntries(CATEGORY_ORDER.map(color => [CATEGORY_EMOJI[color], color])),
+  ...Object.fromEntries(CATEGORY_ORDER.map(color => [color, color])),
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+function isGitHubPuzzle(value: unknown): value is GitHubPuzzle {
+  return isRecord(value) && typeof value.date === "string" && Array.isArray(value.answers)
+    && value.answers.every(answer =>
+      isRecord(answer) && typeof answer.group === "string" && typeof answer.level === "number"
+      && Array.isArray(answer.members) && answer.members.every(member => typeof member === "string")
+    )
+}
+
+function isNYTPuzzle(value: unknown): value is NYTPuzzleResponse {
+  return isRecord(value) && typeof value.print_date === "string" && Array.isArray(value.categories)
+    && value.categories.every(category =>
+      isRecord(category) && typeof category.title === "string" && Array.isArray(category.cards)
+      && category.cards.every(card => isRecord(card) && typeof card.position === "number")
+    )
+}
+
+// The answer has to be a complete puzzle before it can be checked against
+function checkCategories(categories: PuzzleCategory[]): string | null {
+  if (categories.length !== 4) {
+    return `Found ${categories.length} categories - a puzzle needs exactly 4.`
+  }
+  if (categories.some(category => !CATEGORY_ORDER[category.level])) {
+    return "Each category needs a level from 0 (yellow) to 3 (purple)."
+  }
+  return validateDrafts(categoriesToDrafts(categories))[0] ?? null
+}
+
+function fromCategories(format: ImportFormat, categories: PuzzleCategory[], words?: string[], date?: string): ImportResult {
+  const normalized = categories
+    .map(category => ({ ...category, title: category.title.trim(), words: category.words.map(normalizeWord) }))
+    .sort((a, b) => a.level - b.level)
+  const error = checkCategories(normalized)
+  if (error) return { error }
+  return {
+    puzzle: {
+      format,
+      words: words ?? normalized.flatMap(category => category.words),
+      categories: normalized,
+      date,
+    },
+  }
+}
+
+function parseJson(text: string): ImportResult {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    return { error: "That looks like JSON, but it couldn't be read." }
+  }
+
+  // A whole archive can't be imported at once; a single-puzzle array can
+  if (Array.isArray(data)) {
+    if (data.length !== 1) {
+      return { error: `That's a list of ${data.length} puzzles - paste just one.` }
+    }
+    data = data[0]
+  }
+
+  if (isGitHubPuzzle(data)) {
+    const record = normalizeGitHubPuzzle(data)
+    return fromCategories("github", record.categories ?? [], record.words, record.date)
+  }
+  if (isNYTPuzzle(data)) {
+    const record = normalizeNYTPuzzle(data)
+    return fromCategories("nyt", record.categories ?? [], record.words, record.date)
+  }
+  return { error: "That JSON isn't a puzzle from the archive or the NYT." }
+}
+
+// Minimal CSV: quoted fields with "" escapes, commas or tabs between fields
+function parseCsvRows(text: string): string[][] {
+  const delimiter = text.split("\n")[0].includes("\t") ? "\t" : ","
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field.trim() === "") {
+      quoted = true
+      field = ""
+    } else if (char === delimiter) {
+      row.push(field.trim())
+      field = ""
+    } else if (char === "\n") {
+      row.push(field.trim())
+      rows.push(row)
+      row = []
+      field = ""
+    } else if (char !== "\r") {
+      field += char
+    }
+  }
+  row.push(field.trim())
+  rows.push(row)
+
+  return rows.filter(cells => cells.some(cell => cell !== ""))
+}
+
+// Level cells may be color names, emoji, 0-3 or 1-4 (when nothing is 0)
+function parseLevels(cells: string[]): number[] | null {
+  const named = cells.map(cell => LEVEL_NAMES[cell.toLowerCase()] ?? LEVEL_NAMES[cell])
+  if (named.every(Boolean)) {
+    return named.map(color => CATEGORY_ORDER.indexOf(color))
+  }
+  const numbers = cells.map(Number)
+  if (!numbers.every(Number.isInteger)) return null
+  return numbers.includes(0) ? numbers : numbers.map(n => n - 1)
+}
+
+const findColumn = (header: string[], names: string[]) =>
+  header.findIndex(cell => names.includes(cell.toLowerCase()))
+
+function parseCsv(rows: string[][]): ImportResult {
+  const header = rows[0]
+  const hasHeader = findColumn(header, CATEGORY_HEADERS) !== -1
+  const body = hasHeader ? rows.slice(1) : rows
+  const categoryColumn = hasHeader ? findColumn(header, CATEGORY_HEADERS) : 0
+  const levelColumn = hasHeader ? findColumn(header, LEVEL_HEADERS) : -1
+  const wordColumn = hasHeader ? findColumn(header, WORD_HEADERS) : -1
+
+  // Collect each category's words and level cell, in order of first appearance
+  const groups = new Map<string, { words: string[]; level: string }>()
+  for (const row of body) {
+    const title = row[categoryColumn] ?? ""
+    const group = groups.get(title) ?? { words: [], level: levelColumn === -1 ? "" : row[levelColumn] ?? "" }
+    if (wordColumn !== -1) {
+      group.words.push(row[wordColumn] ?? "")
+    } else {
+      group.words.push(...row.filter((_, i) => i !== categoryColumn && i !== levelColumn))
+    }
+    groups.set(title, group)
+  }
+
+  const entries = Array.from(groups.entries())
+  if (entries.some(([title]) => title === "")) {
+    return { error: "Every row needs a category." }
+  }
+  const levels = levelColumn === -1
+    ? entries.map((_, i) => i)
+    : parseLevels(entries.map(([, group]) => group.level))
+  if (!levels) {
+    return { error: "Levels should be colors (yellow ... purple) or numbers." }
+  }
+
+  return fromCategories("csv", entries.map(([title, group], i) => ({
+    title,
+    level: levels[i],
+    words: group.words.filter(Boolean),
+  })))
+}
+
+const isGridLine = (line: string) =>
+  /^(connections|puzzle\s*#\d+)$/i.test(line) || /^[🟨🟩🟦🟪⬜\s]+$/u.test(line)
+
+// "🟨 Fish: BASS, SOLE, PIKE, CARP" or "Yellow - Fish: ..." - the color is optional
+function parseCategoryLine(line: string): { color?: CategoryColor; title: string; words: string[] } | null {
+  let rest = line
+  let color: CategoryColor | undefined
+  const lead = rest.match(/^(\S+?)(?:\s*[-–—:]\s*|\s+)/u)
+  const leadColor = lead && (LEVEL_NAMES[lead[1].toLowerCase()] ?? LEVEL_NAMES[lead[1]])
+  if (lead && leadColor) {
+    color = leadColor
+    rest = rest.slice(lead[0].length)
+  }
+
+  const separator = rest.match(/\s*(?::|\s[-–—]\s)\s*/)
+  if (!separator || separator.index === undefined) return null
+  const title = rest.slice(0, separator.index)
+  const words = rest.slice(separator.index + separator[0].length).split(/\s*[,;]\s*/).filter(Boolean)
+  return title && words.length === 4 ? { color, title, words } : null
+}
+
+function parseText(text: string): ImportResult {
+  const lines = text.split("\n").map(line => line.trim()).filter(Boolean)
+  if (lines.every(isGridLine)) {
+    return { error: "That's a results grid - it doesn't include the words." }
+  }
+
+  const content = lines.filter(line => !isGridLine(line))
+  const categoryLines = content.map(parseCategoryLine)
+  if (categoryLines.every(Boolean)) {
+    const parsed = categoryLines as NonNullable<(typeof categoryLines)[number]>[]
+    const allColored = parsed.every(line => line.color)
+    return fromCategories("text", parsed.map((line, i) => ({
+      title: line.title,
+      level: allColored ? CATEGORY_ORDER.indexOf(line.color as CategoryColor) : i,
+      words: line.words,
+    })))
+  }
+
+  // Just the words, split like the Edit screen does
+  const words = text.split(/[\n,]+/).map(normalizeWord).filter(Boolean)
+  if (words.length !== 16) {
+    return { error: `Found ${words.length} words - a puzzle needs exactly 16.` }
+  }
+  if (new Set(words).size !== 16) {
+    return { error: "Each word can only appear once." }
+  }
+  return { puzzle: { format: "text", words, categories: null } }
+}
+
+function looksLikeCsv(rows: string[][]): boolean {
+  if (rows.length < 2) return false
+  if (findColumn(rows[0], CATEGORY_HEADERS) !== -1) return true
+  // No header: one row per category, name then four words
+  return rows.length === 4 && rows.every(row => row.length === 5)
+}
+
+export function parsePuzzleImport(input: string): ImportResult {
+  const text = input.trim()
+  if (!text) return { error: "Paste a puzzle or choose a file." }
+
+  if (text.startsWith("{") || text.startsWith("[")) {
+    return parseJson(text)
+  }
+  const rows = parseCsvRows(text)
+  if (looksLikeCsv(rows)) {
+    return parseCsv(rows)
+  }
+  return parseText(text)
+}
@@ -0,0 +1,61 @@
+import { mkdir, readFile, writeFile } from "fs/promises"
+import path from "path"
+import type { PuzzleRecord } from "@/lib/puzzle/types"
+
+// Published puzzles never change, so once fetched they can be kept forever
+export interface PuzzleCache {
+  get: (date: string) => Promise<PuzzleRecord | null>
+  set: (puzzle: PuzzleRecord) => Promise<void>
+}
+
+export function createMemoryCache(): PuzzleCache {
+  const puzzles = new Map<string, PuzzleRecord>()
+  return {
+    async get(date) {
+      return puzzles.get(date) ?? null
+    },
+    async set(puzzle) {
+      puzzles.set(puzzle.date, puzzle)
+    },
+  }
+}
+
+// One JSON file per date, with an in-memory layer in front to skip disk reads
+export function createFileCache(directory: string): PuzzleCache {
+  const memory = createMemoryCache()
+  const fileFor = (date: string) => path.join(directory, `${date}.json`)
+
+  return {
+    async get(date) {
+      const cached = await memory.get(date)
+      if (cached) return cached
+
+      try {
+        const puzzle: PuzzleRecord = JSON.parse(await readFile(fileFor(date), "utf8"))
+        await memory.set(puzzle)
+        return puzzle
+      } catch {
+        return null
+      }
+    },
+    async set(puzzle) {
+      await memory.set(puzzle)
+      try {
+        await mkdir(directory, { recursive: true })
+        await writeFile(fileFor(puzzle.date), JSON.stringify(puzzle))
+      } catch (error) {
+        // Read-only filesystem (e.g. serverless) - the memory layer still helps
+        console.warn("Could not write puzzle cache:", error)
+      }
+    },
+  }
+}
+
+export function createNoCache(): PuzzleCache {
+  return {
+    async get() {
+      return null
+    },
+    async set() {},
+  }
+}
@@ -0,0 +1,26 @@
+import type { PuzzleCategory } from "@/lib/puzzle/types"
+import type { GuessResult } from "@/lib/guesses"
+
+export interface CheckResult {
+  result: GuessResult
+  category?: PuzzleCategory // Only for a correct guess, like the real game reveals it
+}
+
+// Score a proposed group of four against the answer, the same way the game does:
+// four from one category is correct, three is one away, anything else is wrong
+export function checkGroup(categories: PuzzleCategory[], words: string[]): CheckResult {
+  const guess = words.map(word => word.toUpperCase())
+  let best: { category: PuzzleCategory; matches: number } | null = null
+
+  for (const category of categories) {
+    const matches = guess.filter(word => category.words.includes(word)).length
+    if (!best || matches > best.matches) {
+      best = { category, matches }
+    }
+  }
+
+  if (best?.matches === 4) {
+    return { result: "correct", category: best.category }
+  }
+  return { result: best?.matches === 3 ? "one-away" : "wrong" }
+}
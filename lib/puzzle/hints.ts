@@ -0,0 +1,37 @@
+import type { PuzzleCategory } from "@/lib/puzzle/types"
+import type { HintRecord } from "@/lib/hints"
+
+const LEVEL_NUDGES = [
+  "This is the most straightforward group - think of the plainest meaning of each word.",
+  "These share a common theme, though one or two may look like they belong elsewhere.",
+  "The link here takes a bit more lateral thinking than the first glance suggests.",
+  "The trickiest group - look past meanings to wordplay, sounds or hidden pieces.",
+]
+
+// A vague pointer drawn from the shape of the category title, without giving it away
+function getNudge(category: PuzzleCategory): string {
+  const title = category.title.toUpperCase()
+
+  if (/_{2,}/.test(title)) {
+    return "Each word fits into the same phrase or compound with something else."
+  }
+  if (/ANAGRAM|HIDDEN|LETTER|RHYME|HOMOPHONE|SOUND|SPELL/.test(title)) {
+    return "Pay attention to how these words are spelled or sound, not what they mean."
+  }
+  return LEVEL_NUDGES[category.level] ?? LEVEL_NUDGES[0]
+}
+
+export function getHint(category: PuzzleCategory, tier: number): HintRecord {
+  const { level } = category
+
+  switch (tier) {
+    case 1:
+      return { level, tier, text: getNudge(category) }
+    case 2:
+      return { level, tier, text: `${category.words[0]} is in this group.`, words: [category.words[0]] }
+    case 3:
+      return { level, tier, text: `The category is "${category.title}".` }
+    default:
+      return { level, tier, text: `${category.title}: ${category.words.join(", ")}`, words: category.words }
+  }
+}
@@ -0,0 +1,89 @@
+import path from "path"
+import type { PuzzleData, PuzzleRecord, PuzzleSource } from "@/lib/puzzle/types"
+import { createNYTSource } from "@/lib/puzzle/sources/nyt"
+import { createGitHubArchiveSource } from "@/lib/puzzle/sources/github-archive"
+import { createLocalArchiveSource } from "@/lib/puzzle/sources/local-archive"
+import { createFileCache, createMemoryCache, createNoCache, type PuzzleCache } from "@/lib/puzzle/cache"
+
+// Configuration (all optional):
+//   PUZZLE_SOURCES       comma-separated source order, default "nyt,github"
+//   PUZZLE_ARCHIVE_PATH  JSON file in the GitHub archive shape, used by the "local" source
+//   PUZZLE_CACHE         "file" (default), "memory" or "off"
+//   PUZZLE_CACHE_DIR     where the file cache lives, default ".puzzle-cache"
+const DEFAULT_SOURCES = "nyt,github"
+
+function createSource(name: string): PuzzleSource | null {
+  switch (name) {
+    case "nyt":
+      return createNYTSource()
+    case "github":
+      return createGitHubArchiveSource()
+    case "local": {
+      const archivePath = process.env.PUZZLE_ARCHIVE_PATH
+      if (!archivePath) {
+        console.warn('Puzzle source "local" needs PUZZLE_ARCHIVE_PATH; skipping it')
+        return null
+      }
+      return createLocalArchiveSource(path.resolve(archivePath))
+    }
+    default:
+      console.warn(`Unknown puzzle source "${name}"; skipping it`)
+      return null
+  }
+}
+
+function createSources(): PuzzleSource[] {
+  return (process.env.PUZZLE_SOURCES || DEFAULT_SOURCES)
+    .split(",")
+    .map(name => name.trim().toLowerCase())
+    .filter(name => name.length > 0)
+    .map(createSource)
+    .filter((source): source is PuzzleSource => source !== null)
+}
+
+function createCache(): PuzzleCache {
+  switch (process.env.PUZZLE_CACHE) {
+    case "off":
+      return createNoCache()
+    case "memory":
+      return createMemoryCache()
+    default:
+      return createFileCache(path.resolve(process.env.PUZZLE_CACHE_DIR || ".puzzle-cache"))
+  }
+}
+
+// Built lazily so env changes in tests/dev take effect on the first request
+let chain: { sources: PuzzleSource[]; cache: PuzzleCache } | null = null
+
+function getChain() {
+  chain ??= { sources: createSources(), cache: createCache() }
+  return chain
+}
+
+// Cache first, then each source in order until one has the puzzle
+export async function getPuzzle(date: string): Promise<PuzzleRecord | null> {
+  const { sources, cache } = getChain()
+
+  // Records cached before answers were kept have no categories; look those up again
+  const cached = await cache.get(date)
+  if (cached?.categories) {
+    return cached
+  }
+
+  for (const source of sources) {
+    const puzzle = await source.fetchPuzzle(date)
+    if (puzzle && puzzle.words.length === 16 && (puzzle.categories || !cached)) {
+      await cache.set(puzzle)
+      return puzzle
+    }
+  }
+
+  return cached
+}
+
+// Strip the answer before anything goes to the client
+export function toPuzzleData({ id, date, words, imageMap }: PuzzleRecord): PuzzleData {
+  return { id, date, words, imageMap }
+}
+
+export type { PuzzleData, PuzzleRecord, PuzzleCategory, PuzzleSource } from "@/lib/puzzle/types"
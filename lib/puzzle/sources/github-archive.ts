@@ -0,0 +1,64 @@
+import type { PuzzleRecord, PuzzleSource } from "@/lib/puzzle/types"
+import { calculatePuzzleNumber } from "@/lib/puzzle-dates"
+
+// Community-maintained archive on GitHub
+const GITHUB_ARCHIVE = "https://raw.githubusercontent.com/Eyefyre/NYT-Connections-Answers/main/connections.json"
+
+export interface GitHubPuzzle {
+  id: number
+  date: string
+  answers: {
+    level: number
+    group: string
+    members: string[]
+  }[]
+}
+
+// No position data in the archive, so interleave words from categories
+export function normalizeGitHubPuzzle(puzzle: GitHubPuzzle): PuzzleRecord {
+  const sortedAnswers = [...puzzle.answers].sort((a, b) => a.level - b.level)
+  const words: string[] = []
+  
+  for (let i = 0; i < 4; i++) {
+    for (const answer of sortedAnswers) {
+      if (answer.members[i]) {
+        words.push(answer.members[i].toUpperCase())
+      }
+    }
+  }
+
+  return {
+    id: calculatePuzzleNumber(puzzle.date),
+    date: puzzle.date,
+    words,
+    categories: sortedAnswers.map(answer => ({
+      title: answer.group,
+      level: answer.level,
+      words: answer.members.map(member => member.toUpperCase()),
+    })),
+  }
+}
+
+export function createGitHubArchiveSource(url = GITHUB_ARCHIVE): PuzzleSource {
+  return {
+    name: "github",
+    async fetchPuzzle(date) {
+      try {
+        const response = await fetch(url, {
+          next: { revalidate: 3600 },
+        })
+
+        if (!response.ok) {
+          return null
+        }
+
+        const puzzles: GitHubPuzzle[] = await response.json()
+        const puzzle = puzzles.find(p => p.date === date)
+
+        return puzzle ? normalizeGitHubPuzzle(puzzle) : null
+      } catch {
+        return null
+      }
+    },
+  }
+}
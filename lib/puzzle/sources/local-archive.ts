@@ -0,0 +1,25 @@
+import { readFile } from "fs/promises"
+import type { PuzzleSource } from "@/lib/puzzle/types"
+import { normalizeGitHubPuzzle, type GitHubPuzzle } from "@/lib/puzzle/sources/github-archive"
+
+// A JSON file on disk in the same shape as the GitHub archive - for offline use and testing
+export function createLocalArchiveSource(filePath: string): PuzzleSource {
+  let puzzlesPromise: Promise<GitHubPuzzle[]> | null = null
+
+  return {
+    name: "local",
+    async fetchPuzzle(date) {
+      try {
+        // Read once per process; the archive is treated as immutable
+        puzzlesPromise ??= readFile(filePath, "utf8").then(text => JSON.parse(text))
+        const puzzles = await puzzlesPromise
+        const puzzle = puzzles.find(p => p.date === date)
+
+        return puzzle ? normalizeGitHubPuzzle(puzzle) : null
+      } catch {
+        puzzlesPromise = null // Allow a retry if the file appears later
+        return null
+      }
+    },
+  }
+}
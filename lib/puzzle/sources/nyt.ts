@@ -0,0 +1,96 @@
+import type { PuzzleRecord, PuzzleSource } from "@/lib/puzzle/types"
+import { calculatePuzzleNumber } from "@/lib/puzzle-dates"
+
+// NYT official API - uses date-based endpoint like Wordle
+function getNYTApiUrl(date: string) {
+  return `https://www.nytimes.com/svc/connections/v2/${date}.json`
+}
+
+interface NYTCard {
+  content?: string
+  image_url?: string
+  image_alt_text?: string
+  position: number
+}
+
+interface NYTCategory {
+  title: string
+  cards: NYTCard[]
+}
+
+export interface NYTPuzzleResponse {
+  id: number
+  print_date: string
+  categories: NYTCategory[]
+}
+
+function getCardWord(card: NYTCard, isPicturePuzzle: boolean): string {
+  if (isPicturePuzzle && card.image_alt_text) {
+    return card.image_alt_text.toUpperCase()
+  }
+  return (card.content || card.image_alt_text || "").toUpperCase()
+}
+
+export function normalizeNYTPuzzle(data: NYTPuzzleResponse): PuzzleRecord {
+  // Collect all cards and sort by position for correct grid order
+  const allCards: NYTCard[] = []
+  for (const category of data.categories) {
+    allCards.push(...category.cards)
+  }
+  
+  allCards.sort((a, b) => a.position - b.position)
+
+  // Check if this is a picture puzzle (cards have image_url instead of content)
+  const isPicturePuzzle = allCards.some(card => card.image_url)
+
+  const words = allCards.map(card => getCardWord(card, isPicturePuzzle))
+
+  // Build image map for picture puzzles
+  let imageMap: Record<string, string> | undefined
+  if (isPicturePuzzle) {
+    imageMap = {}
+    for (const card of allCards) {
+      if (card.image_url && card.image_alt_text) {
+        imageMap[card.image_alt_text.toUpperCase()] = card.image_url
+      }
+    }
+  }
+
+  // Categories come in difficulty order, so the index is the level
+  const categories = data.categories.map((category, level) => ({
+    title: category.title,
+    level,
+    words: category.cards.map(card => getCardWord(card, isPicturePuzzle)),
+  }))
+
+  return {
+    id: calculatePuzzleNumber(data.print_date),
+    date: data.print_date,
+    words,
+    imageMap,
+    categories,
+  }
+}
+
+// NYT official API (has position data for correct order)
+export function createNYTSource(): PuzzleSource {
+  return {
+    name: "nyt",
+    async fetchPuzzle(date) {
+      try {
+        const response = await fetch(getNYTApiUrl(date), {
+          next: { revalidate: 3600 },
+        })
+
+        if (!response.ok) {
+          return null
+        }
+
+        const data: NYTPuzzleResponse = await response.json()
+        return normalizeNYTPuzzle(data)
+      } catch {
+        return null
+      }
+    },
+  }
+}
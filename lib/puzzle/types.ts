@@ -0,0 +1,27 @@
+// Normalized puzzle shape every source produces and the client consumes
+export interface PuzzleData {
+  id: number
+  date: string
+  words: string[]
+  imageMap?: Record<string, string> // maps word (alt text) to image URL
+}
+
+// One answer group, with level 0 (yellow) to 3 (purple)
+export interface PuzzleCategory {
+  title: string
+  level: number
+  words: string[]
+}
+
+// What sources produce and the cache keeps: the public puzzle plus its answer,
+// which must never be sent to the client as-is
+export interface PuzzleRecord extends PuzzleData {
+  categories?: PuzzleCategory[]
+}
+
+// A place puzzles can come from (NYT, community archive, local file, ...).
+// Returns null when the source doesn't have the puzzle or can't be reached.
+export interface PuzzleSource {
+  name: string
+  fetchPuzzle: (date: string) => Promise<PuzzleRecord | null>
+}
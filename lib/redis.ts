@@ -0,0 +1,23 @@
+import { Redis } from "@upstash/redis"
+
+// Redis over HTTP (Upstash, or the Redis integration on Vercel) for state every
+// server instance has to see the same way: push subscriptions and rooms.
+//   UPSTASH_REDIS_REST_URL / UPSTASH_REDIS_REST_TOKEN
+//   (KV_REST_API_URL / KV_REST_API_TOKEN are read too, as Vercel names them)
+let redis: Redis | null | undefined
+
+// Null when no Redis is configured
+export function getRedis(): Redis | null {
+  if (redis === undefined) {
+    const url = process.env.UPSTASH_REDIS_REST_URL || process.env.KV_REST_API_URL
+    const token = process.env.UPSTASH_REDIS_REST_TOKEN || process.env.KV_REST_API_TOKEN
+    redis = url && token ? new Redis({ url, token }) : null
+  }
+  return redis
+}
+
+// Serverless functions get a read-only filesystem and memory that isn't shared
+// between instances, so files and in-process state can't hold anything shared
+export function isServerless(): boolean {
+  return Boolean(process.env.VERCEL || process.env.AWS_LAMBDA_FUNCTION_NAME)
+}
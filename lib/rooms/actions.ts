@@ -0,0 +1,72 @@
+import { isCategoryColor } from "@/lib/categories"
+import type { RoomAction, RoomBoard, RoomState } from "@/lib/rooms/types"
+
+function isColorOrNull(value: unknown) {
+  return value === null || isCategoryColor(value)
+}
+
+// Validate an action against the room's puzzle
+export function isRoomAction(value: unknown, state: RoomState): value is RoomAction {
+  const action = value as RoomAction
+  if (typeof action !== "object" || action === null) return false
+
+  switch (action.type) {
+    case "color":
+    case "one-away":
+      return state.words.includes(action.word) && isColorOrNull(action.color)
+    case "order":
+      return Array.isArray(action.order)
+        && action.order.length === state.order.length
+        && new Set(action.order).size === action.order.length
+        && state.order.every(id => action.order.includes(id))
+    case "cursor":
+      return action.word === null || state.words.includes(action.word)
+    default:
+      return false
+  }
+}
+
+function withEntry<T>(record: Record<string, T>, key: string, value: T | null): Record<string, T> {
+  const { [key]: _, ...rest } = record
+  return value === null ? rest : { ...rest, [key]: value }
+}
+
+// Apply one board action. Cursor moves aren't part of the board and pass through.
+export function applyRoomAction<T extends RoomBoard>(board: T, action: RoomAction): T {
+  switch (action.type) {
+    case "color":
+      return { ...board, wordColors: withEntry(board.wordColors, action.word, action.color) }
+    case "one-away":
+      return { ...board, oneAwayWords: withEntry(board.oneAwayWords, action.word, action.color) }
+    case "order":
+      return { ...board, order: action.order }
+    default:
+      return board
+  }
+}
+
+// The actions that turn the last board seen from the server into the local one.
+// Only what this device changed is sent, so it can't undo someone else's edits.
+export function diffRoomBoard(synced: RoomBoard, local: RoomBoard): RoomAction[] {
+  const actions: RoomAction[] = []
+
+  const colorWords = new Set([...Object.keys(synced.wordColors), ...Object.keys(local.wordColors)])
+  for (const word of colorWords) {
+    if (synced.wordColors[word] !== local.wordColors[word]) {
+      actions.push({ type: "color", word, color: local.wordColors[word] ?? null })
+    }
+  }
+
+  const oneAwayWords = new Set([...Object.keys(synced.oneAwayWords), ...Object.keys(local.oneAwayWords)])
+  for (const word of oneAwayWords) {
+    if (synced.oneAwayWords[word] !== local.oneAwayWords[word]) {
+      actions.push({ type: "one-away", word, color: local.oneAwayWords[word] ?? null })
+    }
+  }
+
+  if (synced.order.join("|") !== local.order.join("|")) {
+    actions.push({ type: "order", order: local.order })
+  }
+
+  return actions
+}
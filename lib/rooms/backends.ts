@@ -0,0 +1,153 @@
+import type { Redis } from "@upstash/redis"
+import type { Participant, RoomState } from "@/lib/rooms/types"
+
+// A participant and the streams (tabs) they have open, by connection id -> last seen (ms)
+export interface StoredParticipant extends Participant {
+  connections: Record<string, number>
+}
+
+export interface StoredRoom {
+  id: string
+  state: RoomState
+  participants: Record<string, StoredParticipant>
+  revision: number // Bumped on every write, including presence; orders snapshots
+  updatedAt: number
+}
+
+export interface RoomBackend {
+  // False when a room with this code already exists
+  create: (room: StoredRoom) => Promise<boolean>
+  get: (id: string) => Promise<StoredRoom | null>
+  // Read-modify-write that no other write can interleave with. Null when the room
+  // doesn't exist. `notify: false` saves without waking listeners (heartbeats).
+  update: (id: string, change: (room: StoredRoom) => StoredRoom, options?: { notify?: boolean }) => Promise<StoredRoom | null>
+  // Called after every notifying update of this room, from any server instance.
+  // Returns a function that stops listening.
+  subscribe: (id: string, listener: () => void) => () => void
+}
+
+// Rooms nobody has touched in this long are dropped
+export const ROOM_TTL_MS = 1000 * 60 * 60 * 12
+
+// One Node process: a restart ends every room, so only for a single self-hosted server
+export function createMemoryBackend(): RoomBackend {
+  // Kept on globalThis so dev-mode module reloads don't wipe every room
+  const globalRooms = globalThis as typeof globalThis & {
+    purpleHunterRooms?: { rooms: Map<string, StoredRoom>; listeners: Map<string, Set<() => void>> }
+  }
+  const { rooms, listeners } = (globalRooms.purpleHunterRooms ??= { rooms: new Map(), listeners: new Map() })
+
+  const prune = (now: number) => {
+    for (const [id, room] of rooms) {
+      if (!listeners.get(id)?.size && now - room.updatedAt > ROOM_TTL_MS) {
+        rooms.delete(id)
+      }
+    }
+  }
+
+  return {
+    async create(room) {
+      prune(Date.now())
+      if (rooms.has(room.id)) return false
+      rooms.set(room.id, room)
+      return true
+    },
+    async get(id) {
+      return rooms.get(id) ?? null
+    },
+    async update(id, change, { notify = true } = {}) {
+      const room = rooms.get(id)
+      if (!room) return null
+      const next = { ...change(room), revision: room.revision + 1, updatedAt: Date.now() }
+      rooms.set(id, next)
+      if (notify) {
+        // After this write returns, so a failing listener can't fail the writer
+        for (const listener of listeners.get(id) ?? []) {
+          queueMicrotask(() => {
+            try {
+              listener()
+            } catch (error) {
+              console.error(`Room ${id} listener failed:`, error)
+            }
+          })
+        }
+      }
+      return next
+    },
+    subscribe(id, listener) {
+      const set = listeners.get(id) ?? new Set()
+      set.add(listener)
+      listeners.set(id, set)
+      return () => {
+        set.delete(listener)
+        if (set.size === 0) listeners.delete(id)
+      }
+    },
+  }
+}
+
+const roomKey = (id: string) => `purple-hunter:room:${id}`
+const channelFor = (id: string) => `purple-hunter:room-events:${id}`
+const TTL_SECONDS = String(ROOM_TTL_MS / 1000)
+// Writes that keep losing the race give up after this many tries
+const MAX_UPDATE_ATTEMPTS = 5
+
+// Creates only if the code is free
+const CREATE_SCRIPT = `
+if redis.call("EXISTS", KEYS[1]) == 1 then return 0 end
+redis.call("HSET", KEYS[1], "data", ARGV[1], "revision", ARGV[2])
+redis.call("EXPIRE", KEYS[1], ARGV[3])
+return 1
+`
+// Writes only if nobody else has since the read (same revision), then tells subscribers
+const UPDATE_SCRIPT = `
+if redis.call("HGET", KEYS[1], "revision") ~= ARGV[1] then return 0 end
+redis.call("HSET", KEYS[1], "data", ARGV[2], "revision", ARGV[3])
+redis.call("EXPIRE", KEYS[1], ARGV[4])
+if ARGV[5] == "1" then redis.call("PUBLISH", KEYS[2], ARGV[3]) end
+return 1
+`
+
+// Shared by every server instance: state in a hash per room, changes announced over pub/sub
+export function createRedisBackend(redis: Redis): RoomBackend {
+  const get = async (id: string): Promise<StoredRoom | null> => {
+    const stored = await redis.hgetall<{ data: StoredRoom | string }>(roomKey(id))
+    if (!stored?.data) return null
+    // The client parses JSON values itself; accept either form
+    return typeof stored.data === "string" ? JSON.parse(stored.data) : stored.data
+  }
+
+  return {
+    async create(room) {
+      const created = await redis.eval<string[], number>(
+        CREATE_SCRIPT,
+        [roomKey(room.id)],
+        [JSON.stringify(room), String(room.revision), TTL_SECONDS]
+      )
+      return created === 1
+    },
+    get,
+    async update(id, change, { notify = true } = {}) {
+      for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+        const room = await get(id)
+        if (!room) return null
+        const next = { ...change(room), revision: room.revision + 1, updatedAt: Date.now() }
+        const written = await redis.eval<string[], number>(
+          UPDATE_SCRIPT,
+          [roomKey(id), channelFor(id)],
+          [String(room.revision), JSON.stringify(next), String(next.revision), TTL_SECONDS, notify ? "1" : "0"]
+        )
+        if (written === 1) return next
+      }
+      throw new Error(`Room ${id} is changing too fast to update`)
+    },
+    subscribe(id, listener) {
+      const subscriber = redis.subscribe<string>(channelFor(id))
+      subscriber.on("message", () => listener())
+      subscriber.on("error", error => console.error(`Room ${id} subscription failed:`, error))
+      return () => {
+        subscriber.unsubscribe().catch(() => {})
+      }
+    },
+  }
+}
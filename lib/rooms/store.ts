@@ -0,0 +1,222 @@
+import { randomInt } from "crypto"
+import { getRedis, isServerless } from "@/lib/redis"
+import { applyRoomAction } from "@/lib/rooms/actions"
+import {
+  createMemoryBackend,
+  createRedisBackend,
+  type RoomBackend,
+  type StoredParticipant,
+  type StoredRoom,
+} from "@/lib/rooms/backends"
+import type { RoomAction, RoomBoard, RoomPuzzle, RoomSnapshot } from "@/lib/rooms/types"
+
+// Where rooms live (all optional):
+//   ROOM_STORE  "redis" or "memory". Default: redis when configured (see lib/redis), else
+//               memory - except on serverless hosts, where requests for one room land on
+//               different instances, so rooms are unavailable without redis
+
+// Unambiguous characters, so codes survive being read aloud
+const CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789"
+const CODE_LENGTH = 6
+// A connection that hasn't checked in for this long is gone (its server may have died)
+export const PRESENCE_TIMEOUT_MS = 60_000
+
+const AVATAR_COLORS = ["#f472b6", "#38bdf8", "#fb923c", "#4ade80", "#c084fc", "#facc15", "#f87171", "#2dd4bf"]
+
+function createBackend(): RoomBackend | null {
+  const redis = getRedis()
+  switch (process.env.ROOM_STORE) {
+    case "memory":
+      return createMemoryBackend()
+    case "redis":
+      if (!redis) {
+        console.warn("ROOM_STORE=redis needs UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN; rooms are unavailable")
+      }
+      return redis ? createRedisBackend(redis) : null
+    default:
+      if (redis) return createRedisBackend(redis)
+      if (isServerless()) {
+        console.warn("Rooms need Redis on serverless hosts (see lib/redis); rooms are unavailable")
+        return null
+      }
+      return createMemoryBackend()
+  }
+}
+
+// Built lazily so env changes apply on the first request
+let backend: RoomBackend | null | undefined
+
+function getBackend(): RoomBackend | null {
+  if (backend === undefined) backend = createBackend()
+  return backend
+}
+
+// Thrown when this server has nowhere to keep rooms; routes answer 503
+export class RoomsUnavailableError extends Error {
+  constructor() {
+    super("Rooms aren't available on this server")
+    this.name = "RoomsUnavailableError"
+  }
+}
+
+function requireBackend(): RoomBackend {
+  const current = getBackend()
+  if (!current) throw new RoomsUnavailableError()
+  return current
+}
+
+const isLive = (participant: StoredParticipant, now: number) =>
+  Object.values(participant.connections).some(seen => now - seen < PRESENCE_TIMEOUT_MS)
+
+// Drop connections that stopped checking in, and anyone left without one
+function withoutStale(participants: Record<string, StoredParticipant>, now: number): Record<string, StoredParticipant> {
+  const live: Record<string, StoredParticipant> = {}
+  for (const [id, participant] of Object.entries(participants)) {
+    const connections = Object.fromEntries(
+      Object.entries(participant.connections).filter(([, seen]) => now - seen < PRESENCE_TIMEOUT_MS)
+    )
+    if (Object.keys(connections).length > 0) live[id] = { ...participant, connections }
+  }
+  return live
+}
+
+function toSnapshot(room: StoredRoom): RoomSnapshot {
+  const now = Date.now()
+  return {
+    id: room.id,
+    state: room.state,
+    participants: Object.values(room.participants)
+      .filter(participant => isLive(participant, now))
+      .map(({ connections: _, ...participant }) => participant),
+  }
+}
+
+export function normalizeRoomCode(code: string): string {
+  return code.trim().toUpperCase()
+}
+
+export async function createRoom(puzzle: RoomPuzzle, board: RoomBoard): Promise<RoomSnapshot> {
+  const rooms = requireBackend()
+  for (;;) {
+    const room: StoredRoom = {
+      id: Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]).join(""),
+      state: { ...puzzle, ...board, version: 1 },
+      participants: {},
+      revision: 0,
+      updatedAt: Date.now(),
+    }
+    // Codes are random, so a clash just means trying another
+    if (await rooms.create(room)) return toSnapshot(room)
+  }
+}
+
+export async function getRoom(id: string): Promise<RoomSnapshot | null> {
+  const room = await requireBackend().get(normalizeRoomCode(id))
+  return room ? toSnapshot(room) : null
+}
+
+// Add a connection (one open tab) for a participant. Null if the room doesn't exist.
+export async function joinRoom(id: string, participant: { id: string; name: string }, connectionId: string): Promise<RoomSnapshot | null> {
+  const room = await requireBackend().update(normalizeRoomCode(id), current => {
+    const now = Date.now()
+    const participants = withoutStale(current.participants, now)
+    const existing = participants[participant.id]
+    return {
+      ...current,
+      participants: {
+        ...participants,
+        [participant.id]: {
+          id: participant.id,
+          name: participant.name,
+          color: existing?.color ?? AVATAR_COLORS[Object.keys(participants).length % AVATAR_COLORS.length],
+          cursor: existing?.cursor ?? null,
+          connections: { ...existing?.connections, [connectionId]: now },
+        },
+      },
+    }
+  })
+  return room ? toSnapshot(room) : null
+}
+
+// Keep a connection counted as present; nobody needs to hear about it
+export async function touchConnection(id: string, participantId: string, connectionId: string): Promise<void> {
+  await requireBackend().update(normalizeRoomCode(id), current => {
+    const participant = current.participants[participantId]
+    if (!participant) return current
+    return {
+      ...current,
+      participants: {
+        ...current.participants,
+        [participantId]: { ...participant, connections: { ...participant.connections, [connectionId]: Date.now() } },
+      },
+    }
+  }, { notify: false })
+}
+
+export async function leaveRoom(id: string, participantId: string, connectionId: string): Promise<void> {
+  await requireBackend().update(normalizeRoomCode(id), current => {
+    const participant = current.participants[participantId]
+    if (!participant) return current
+    const { [connectionId]: _, ...connections } = participant.connections
+    return {
+      ...current,
+      participants: withoutStale({ ...current.participants, [participantId]: { ...participant, connections } }, Date.now()),
+    }
+  })
+}
+
+// Snapshots of a room after every change, in order, whichever server made it.
+// Returns a function that stops watching.
+export function watchRoom(id: string, listener: (snapshot: RoomSnapshot) => void): () => void {
+  const rooms = requireBackend()
+  const code = normalizeRoomCode(id)
+  let lastRevision = -1
+  let pending = Promise.resolve()
+
+  const refresh = () => {
+    pending = pending.then(async () => {
+      const room = await rooms.get(code)
+      // Notifications can arrive late or twice; only ever move forward
+      if (room && room.revision > lastRevision) {
+        lastRevision = room.revision
+        listener(toSnapshot(room))
+      }
+    }).catch(error => console.error(`Could not refresh room ${code}:`, error))
+  }
+
+  const unsubscribe = rooms.subscribe(code, refresh)
+  refresh()
+  return unsubscribe
+}
+
+// Whether a participant has an open stream to the room; only they may send actions
+export async function isInRoom(id: string, participantId: string): Promise<boolean> {
+  const room = await requireBackend().get(normalizeRoomCode(id))
+  const participant = room?.participants[participantId]
+  return Boolean(participant && isLive(participant, Date.now()))
+}
+
+// Apply a batch of actions in the order received. Taps from different people are
+// resolved by arrival: the last value set for a word wins, and everyone converges
+// on the broadcast state. Returns null if the room doesn't exist.
+export async function applyActions(id: string, participantId: string, actions: RoomAction[]): Promise<RoomSnapshot | null> {
+  const room = await requireBackend().update(normalizeRoomCode(id), current => {
+    let state = current.state
+    let participants = current.participants
+    for (const action of actions) {
+      if (action.type === "cursor") {
+        const participant = participants[participantId]
+        if (participant) {
+          participants = { ...participants, [participantId]: { ...participant, cursor: action.word } }
+        }
+      } else {
+        state = applyRoomAction(state, action)
+      }
+    }
+    if (state !== current.state) {
+      state = { ...state, version: current.state.version + 1 }
+    }
+    return { ...current, state, participants }
+  })
+  return room ? toSnapshot(room) : null
+}
@@ -0,0 +1,42 @@
+import type { CategoryColor } from "@/lib/categories"
+
+// The shared part of a board. Drag positions and the guess log stay per device.
+export interface RoomBoard {
+  order: string[] // Tile ids in grid order
+  wordColors: Record<string, CategoryColor>
+  oneAwayWords: Record<string, CategoryColor>
+}
+
+// Everything a late joiner needs to rebuild the puzzle without fetching it
+export interface RoomPuzzle {
+  words: string[] // Original puzzle order; tile ids come from this (see createTiles)
+  puzzleId: number | null
+  puzzleDate: string | null
+  imageMap: Record<string, string> | null
+}
+
+export interface RoomState extends RoomPuzzle, RoomBoard {
+  version: number // Bumped on every applied change
+}
+
+export interface Participant {
+  id: string
+  name: string
+  color: string // Avatar color
+  cursor: string | null // Word the participant last touched
+}
+
+// What the server streams to everyone in the room after each change
+export interface RoomSnapshot {
+  id: string
+  state: RoomState
+  participants: Participant[]
+}
+
+// Actions carry the value the sender wants, not a toggle, so two people making
+// the same change don't cancel each other out
+export type RoomAction =
+  | { type: "color"; word: string; color: CategoryColor | null }
+  | { type: "one-away"; word: string; color: CategoryColor | null }
+  | { type: "order"; order: string[] }
+  | { type: "cursor"; word: string | null }
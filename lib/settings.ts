@@ -0,0 +1,56 @@
+import { isPaletteId, type PaletteId } from "@/lib/categories"
+
+// App-wide preferences, kept in local storage between sessions
+export interface Settings {
+  checkAnswers: boolean // Verify submitted groups against the answer key
+  shareIncludeLink: boolean // Add a link back to the app in shared results
+  palette: PaletteId
+  showGlyphs: boolean // Draw a shape per group on tiles and color buttons
+  showTimer: boolean // Show the solve timer in the header and shared results
+  showRedHerrings: boolean // Mark tiles that fit more than one candidate group (see lib/analysis)
+  notifyNewPuzzle: boolean // Push notification when each day's puzzle goes live
+  reminderTime: string // "HH:MM" for the "haven't played today" push, or "" for none
+  roomName: string // Name shown to others in collaborative rooms ("" = Guest)
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+  checkAnswers: false,
+  shareIncludeLink: true,
+  palette: "default",
+  showGlyphs: false,
+  showTimer: false,
+  showRedHerrings: false,
+  notifyNewPuzzle: false,
+  reminderTime: "",
+  roomName: "",
+}
+
+const SETTINGS_KEY = "purple-hunter:settings"
+
+// Missing or unreadable values fall back to the defaults one field at a time
+export function loadSettings(): Settings {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY)
+    const parsed: Record<string, unknown> = stored ? JSON.parse(stored) : {}
+    const settings = { ...DEFAULT_SETTINGS }
+    for (const key of Object.keys(DEFAULT_SETTINGS) as (keyof Settings)[]) {
+      if (typeof parsed[key] === typeof DEFAULT_SETTINGS[key]) {
+        (settings as Record<keyof Settings, unknown>)[key] = parsed[key]
+      }
+    }
+    if (!isPaletteId(settings.palette)) {
+      settings.palette = DEFAULT_SETTINGS.palette
+    }
+    return settings
+  } catch {
+    return DEFAULT_SETTINGS
+  }
+}
+
+export function saveSettings(settings: Settings) {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings))
+  } catch {
+    // Storage unavailable - settings last for this session only
+  }
+}
@@ -0,0 +1,93 @@
+import { CATEGORY_ORDER, type CategoryColor } from "@/lib/categories"
+import type { Guess } from "@/lib/guesses"
+import type { PuzzleCategory } from "@/lib/puzzle/types"
+import { formatDuration } from "@/lib/timer"
+
+export const CATEGORY_EMOJI: Record<CategoryColor, string> = {
+  yellow: "🟨",
+  green: "🟩",
+  blue: "🟦",
+  purple: "🟪",
+}
+
+const UNKNOWN_EMOJI = "⬜"
+
+interface ShareOptions {
+  puzzleId: number | null
+  guesses: Guess[]
+  wordColors: Record<string, CategoryColor>
+  answer?: PuzzleCategory[] | null // When the client has it (custom puzzles carry theirs)
+  hintsUsed: number
+  solveTimeMs?: number // Only for finished puzzles with the timer on
+  link?: string
+}
+
+// Words whose real category is known: from the answer, or from a correct guess
+function getKnownColors(guesses: Guess[], answer: PuzzleCategory[] | null): Record<string, CategoryColor> {
+  const known: Record<string, CategoryColor> = {}
+  for (const category of answer ?? []) {
+    const color = CATEGORY_ORDER[category.level]
+    if (!color) continue
+    for (const word of category.words) known[word] = color
+  }
+  for (const guess of guesses) {
+    if (guess.result !== "correct") continue
+    for (const word of guess.words) known[word] = guess.color
+  }
+  return known
+}
+
+// One guess, as the real game prints it: each word's real color. Without those, only the
+// result is known - a one-away shows three squares of the guessed color, a wrong guess
+// none - so a missed guess never looks like a solved row.
+function toGuessRow(guess: Guess, known: Record<string, CategoryColor>): string {
+  if (guess.words.every(word => known[word])) {
+    return guess.words.map(word => CATEGORY_EMOJI[known[word]]).join("")
+  }
+  switch (guess.result) {
+    case "correct":
+      return CATEGORY_EMOJI[guess.color].repeat(4)
+    case "one-away":
+      return CATEGORY_EMOJI[guess.color].repeat(3) + UNKNOWN_EMOJI
+    case "wrong":
+      return UNKNOWN_EMOJI.repeat(4)
+  }
+}
+
+// Rows come from the guess log when there is one, otherwise from the completed color groups
+export function getShareRows(
+  guesses: Guess[],
+  wordColors: Record<string, CategoryColor>,
+  answer: PuzzleCategory[] | null = null
+): string[] {
+  if (guesses.length > 0) {
+    const known = getKnownColors(guesses, answer)
+    return guesses.map(guess => toGuessRow(guess, known))
+  }
+
+  return CATEGORY_ORDER
+    .filter(color => Object.values(wordColors).filter(c => c === color).length === 4)
+    .map(color => CATEGORY_EMOJI[color].repeat(4))
+}
+
+// The familiar block players paste everywhere
+export function buildShareText({ puzzleId, guesses, wordColors, answer = null, hintsUsed, solveTimeMs, link }: ShareOptions): string {
+  const lines = ["Connections", puzzleId ? `Puzzle #${puzzleId}` : "Custom puzzle"]
+  lines.push(...getShareRows(guesses, wordColors, answer))
+
+  const notes: string[] = []
+  if (solveTimeMs !== undefined) {
+    notes.push(`⏱️ ${formatDuration(solveTimeMs)}`)
+  }
+  if (hintsUsed > 0) {
+    notes.push(`💡 ${hintsUsed} hint${hintsUsed === 1 ? "" : "s"}`)
+  }
+  if (notes.length > 0) {
+    lines.push("", notes.join(" • "))
+  }
+  if (link) {
+    lines.push("", `Hunted with Purple Hunter: ${link}`)
+  }
+
+  return lines.join("\n")
+}
@@ -0,0 +1,180 @@
+import type { Guess } from "@/lib/guesses"
+
+// Works out which ways of splitting the 16 words into four groups still agree
+// with the guess log. It knows nothing about meaning - only what each result rules out:
+//   correct   the four words are a group
+//   one away  exactly three of the four share a group
+//   wrong     no group holds three or more of the four
+// A full board has 2,627,625 possible groupings, so they're counted (with memoized
+// subproblems over 16-bit word masks) rather than listed.
+
+// Groupings are listed in full only when there are this few left
+const LIST_LIMIT = 12
+const LIKELY_GROUP_COUNT = 6
+
+export interface SolverGroup {
+  words: string[]
+  share: number // Fraction of the consistent groupings that contain this group
+}
+
+export interface SolverSuggestion {
+  words: string[]
+  correct: number // Chance the guess is right, over the consistent groupings
+  oneAway: number
+  bits: number // Expected information from its result
+}
+
+export interface SolverResult {
+  total: number // Consistent ways to finish the puzzle; 0 means the log contradicts itself
+  remainingWords: string[] // Words not yet in a confirmed group
+  solutions: string[][][] | null // Every consistent grouping of the remaining words, when few enough
+  likelyGroups: SolverGroup[]
+  suggestion: SolverSuggestion | null
+}
+
+function popcount(mask: number): number {
+  let count = 0
+  while (mask) {
+    mask &= mask - 1
+    count++
+  }
+  return count
+}
+
+// Every 4-word mask out of 16 bits
+const ALL_GROUPS: number[] = []
+for (let mask = 0; mask < 1 << 16; mask++) {
+  if (popcount(mask) === 4) ALL_GROUPS.push(mask)
+}
+
+const lowestBit = (mask: number) => mask & -mask
+
+export function solvePuzzle(words: string[], guesses: Guess[]): SolverResult {
+  const bitOf = new Map(words.map((word, i) => [word, 1 << i]))
+  const toMask = (group: string[]) => group.reduce((mask, word) => mask | (bitOf.get(word) ?? 0), 0)
+  const toWords = (mask: number) => words.filter((_, i) => mask & (1 << i))
+
+  const correct = guesses.filter(g => g.result === "correct").map(g => toMask(g.words))
+  const wrong = guesses.filter(g => g.result === "wrong").map(g => toMask(g.words))
+  const oneAway = guesses.filter(g => g.result === "one-away").map(g => toMask(g.words))
+  const guessed = new Set(guesses.map(g => toMask(g.words)))
+  const allOneAway = (1 << oneAway.length) - 1
+
+  // Null when a group breaks a wrong or one-away result; otherwise which one-away results it satisfies
+  const check = (group: number): number | null => {
+    if (wrong.some(mask => popcount(group & mask) > 2)) return null
+    let satisfied = 0
+    for (let i = 0; i < oneAway.length; i++) {
+      const overlap = popcount(group & oneAway[i])
+      if (overlap > 3) return null
+      if (overlap === 3) satisfied |= 1 << i
+    }
+    return satisfied
+  }
+
+  const full = words.length === 16 ? 0xffff : 0
+  let remaining = full
+  let fixedSatisfied: number | null = 0
+  for (const mask of correct) {
+    const satisfied = check(mask)
+    if (popcount(mask) !== 4 || (mask & remaining) !== mask || satisfied === null) {
+      fixedSatisfied = null
+      break
+    }
+    remaining ^= mask
+    fixedSatisfied |= satisfied
+  }
+
+  const empty: SolverResult = { total: 0, remainingWords: toWords(remaining), solutions: [], likelyGroups: [], suggestion: null }
+  if (!full || fixedSatisfied === null) return empty
+
+  // Only groups that fit inside the remaining words and break no result
+  const candidates = new Map<number, number>()
+  for (const group of ALL_GROUPS) {
+    if ((group & remaining) !== group) continue
+    const satisfied = check(group)
+    if (satisfied !== null) candidates.set(group, satisfied)
+  }
+  const byLowest = new Map<number, number[]>()
+  for (const group of candidates.keys()) {
+    const low = lowestBit(group)
+    byLowest.set(low, [...(byLowest.get(low) ?? []), group])
+  }
+
+  // Ways to split `rest` into valid groups, given the one-away results already satisfied.
+  // The lowest remaining word always goes in the next group, so each split is counted once.
+  const memo = new Map<number, number>()
+  const count = (rest: number, satisfied: number): number => {
+    if (rest === 0) return satisfied === allOneAway ? 1 : 0
+    const key = rest + satisfied * 0x10000
+    const cached = memo.get(key)
+    if (cached !== undefined) return cached
+
+    let total = 0
+    for (const group of byLowest.get(lowestBit(rest)) ?? []) {
+      if ((group & rest) === group) {
+        total += count(rest ^ group, satisfied | candidates.get(group)!)
+      }
+    }
+    memo.set(key, total)
+    return total
+  }
+
+  const total = count(remaining, fixedSatisfied)
+  if (total === 0) return empty
+
+  // How many consistent groupings contain each group
+  const countWith = new Map<number, number>()
+  for (const [group, satisfied] of candidates) {
+    const withGroup = count(remaining ^ group, fixedSatisfied | satisfied)
+    if (withGroup > 0) countWith.set(group, withGroup)
+  }
+
+  const likelyGroups = Array.from(countWith)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, LIKELY_GROUP_COUNT)
+    .map(([group, n]) => ({ words: toWords(group), share: n / total }))
+
+  // Best guess: the possible group whose result (correct / one away / wrong) is hardest
+  // to predict, so any answer cuts the possibilities most. Only groups that could be right,
+  // so following it never spends a guess on something already ruled out.
+  let suggestion: SolverSuggestion | null = null
+  if (guesses.length > 0 || correct.length > 0) {
+    for (const [group, n] of countWith) {
+      if (guessed.has(group)) continue
+      // At most one group can hold three of these words, so the one-away cases add up
+      let oneAwayCount = 0
+      for (let out = group; out; out &= out - 1) {
+        const without = group ^ lowestBit(out)
+        for (let inBit = lowestBit(remaining & ~group), rest = remaining & ~group; rest; rest ^= inBit, inBit = lowestBit(rest)) {
+          oneAwayCount += countWith.get(without | inBit) ?? 0
+        }
+      }
+      const p = [n / total, oneAwayCount / total, (total - n - oneAwayCount) / total]
+      const bits = -p.reduce((sum, x) => x > 0 ? sum + x * Math.log2(x) : sum, 0)
+      if (!suggestion || bits > suggestion.bits + 1e-9 || (Math.abs(bits - suggestion.bits) < 1e-9 && p[0] > suggestion.correct)) {
+        suggestion = { words: toWords(group), correct: p[0], oneAway: p[1], bits }
+      }
+    }
+  }
+
+  return {
+    total,
+    remainingWords: toWords(remaining),
+    solutions: total <= LIST_LIMIT ? listSolutions(remaining, fixedSatisfied) : null,
+    likelyGroups,
+    suggestion,
+  }
+
+  function listSolutions(rest: number, satisfied: number): string[][][] {
+    if (rest === 0) return satisfied === allOneAway ? [[]] : []
+    const found: string[][][] = []
+    for (const group of byLowest.get(lowestBit(rest)) ?? []) {
+      if ((group & rest) !== group) continue
+      for (const solution of listSolutions(rest ^ group, satisfied | candidates.get(group)!)) {
+        found.push([toWords(group), ...solution])
+      }
+    }
+    return found
+  }
+}
@@ -0,0 +1,135 @@
+import { isCategoryColor, type CategoryColor } from "@/lib/categories"
+import { shiftDate } from "@/lib/puzzle-dates"
+
+// Bump if the export format changes so imports can tell old files apart
+export const STATS_EXPORT_VERSION = 1
+
+const STATS_KEY = "purple-hunter:stats"
+
+// One finished official puzzle
+export interface PuzzleResult {
+  puzzleId: number
+  date: string
+  won: boolean
+  mistakes: number
+  hintsUsed: number
+  solveOrder: CategoryColor[] // Colors in the order they were guessed correctly
+  solveTimeMs: number | null // Null when no time was recorded
+  completedAt: string
+}
+
+export interface StatsSummary {
+  played: number
+  wins: number
+  winRate: number // 0-1
+  currentStreak: number
+  maxStreak: number
+  averageMistakes: number
+  purpleFirstRate: number // Share of wins where purple was found first, 0-1
+}
+
+function isPuzzleResult(value: unknown): value is PuzzleResult {
+  const result = value as PuzzleResult
+  return typeof result === "object" && result !== null
+    && typeof result.puzzleId === "number"
+    && typeof result.date === "string"
+    && typeof result.won === "boolean"
+    && typeof result.mistakes === "number"
+    && typeof result.hintsUsed === "number"
+    && Array.isArray(result.solveOrder) && result.solveOrder.every(isCategoryColor)
+    && (result.solveTimeMs === null || typeof result.solveTimeMs === "number")
+    && typeof result.completedAt === "string"
+}
+
+export function loadStats(): PuzzleResult[] {
+  try {
+    const stored = localStorage.getItem(STATS_KEY)
+    const parsed: unknown = stored ? JSON.parse(stored) : []
+    return Array.isArray(parsed) ? parsed.filter(isPuzzleResult) : []
+  } catch {
+    return []
+  }
+}
+
+export function saveStats(results: PuzzleResult[]) {
+  try {
+    localStorage.setItem(STATS_KEY, JSON.stringify(results))
+  } catch {
+    // Storage unavailable - stats just won't persist
+  }
+}
+
+// One result per puzzle; playing it again replaces the old entry. Re-recording the
+// same outcome (e.g. reopening a finished puzzle) keeps the original completion time.
+export function recordResult(result: PuzzleResult) {
+  const stats = loadStats()
+  const existing = stats.find(r => r.puzzleId === result.puzzleId)
+  if (existing && JSON.stringify({ ...existing, completedAt: "" }) === JSON.stringify({ ...result, completedAt: "" })) {
+    return
+  }
+
+  const results = stats.filter(r => r.puzzleId !== result.puzzleId)
+  saveStats([...results, result].sort((a, b) => a.date.localeCompare(b.date)))
+}
+
+// Consecutive puzzle dates won. The current streak may end today or yesterday,
+// so it doesn't reset before today's puzzle has been played.
+function getStreaks(results: PuzzleResult[], today: string) {
+  const wonDates = new Set(results.filter(r => r.won).map(r => r.date))
+
+  let maxStreak = 0
+  for (const date of wonDates) {
+    if (wonDates.has(shiftDate(date, -1))) continue // Not the start of a run
+    let length = 1
+    while (wonDates.has(shiftDate(date, length))) length++
+    maxStreak = Math.max(maxStreak, length)
+  }
+
+  let currentStreak = 0
+  let date = wonDates.has(today) ? today : shiftDate(today, -1)
+  while (wonDates.has(date)) {
+    currentStreak++
+    date = shiftDate(date, -1)
+  }
+
+  return { currentStreak, maxStreak }
+}
+
+export function summarizeStats(results: PuzzleResult[], today: string): StatsSummary {
+  const wins = results.filter(r => r.won)
+  const totalMistakes = results.reduce((sum, r) => sum + r.mistakes, 0)
+
+  return {
+    played: results.length,
+    wins: wins.length,
+    winRate: results.length > 0 ? wins.length / results.length : 0,
+    ...getStreaks(results, today),
+    averageMistakes: results.length > 0 ? totalMistakes / results.length : 0,
+    purpleFirstRate: wins.length > 0 ? wins.filter(r => r.solveOrder[0] === "purple").length / wins.length : 0,
+  }
+}
+
+export function exportStats(results: PuzzleResult[]): string {
+  return JSON.stringify({ version: STATS_EXPORT_VERSION, exportedAt: new Date().toISOString(), results }, null, 2)
+}
+
+// Merge an exported file into the current results; for puzzles in both, the most
+// recently completed wins. Throws if the file isn't a stats export.
+export function importStats(current: PuzzleResult[], json: string): PuzzleResult[] {
+  const parsed = JSON.parse(json)
+  if (typeof parsed !== "object" || parsed === null || !Array.isArray(parsed.results)) {
+    throw new Error("This file isn't a Purple Hunter stats export")
+  }
+  if (typeof parsed.version !== "number" || parsed.version > STATS_EXPORT_VERSION) {
+    throw new Error("This export is from a newer version of Purple Hunter")
+  }
+
+  const merged = new Map(current.map(r => [r.puzzleId, r]))
+  for (const result of (parsed.results as unknown[]).filter(isPuzzleResult)) {
+    const existing = merged.get(result.puzzleId)
+    if (!existing || existing.completedAt < result.completedAt) {
+      merged.set(result.puzzleId, result)
+    }
+  }
+  return Array.from(merged.values()).sort((a, b) => a.date.localeCompare(b.date))
+}
@@ -0,0 +1,24 @@
+// Solve time for one puzzle, as last checkpointed (on pause, hide or finish)
+export interface TimerState {
+  elapsedMs: number
+  finished: boolean
+}
+
+export const INITIAL_TIMER: TimerState = { elapsedMs: 0, finished: false }
+
+export function isTimerState(value: unknown): value is TimerState {
+  const timer = value as TimerState
+  return typeof timer === "object" && timer !== null
+    && typeof timer.elapsedMs === "number" && typeof timer.finished === "boolean"
+}
+
+// 83000 -> "1:23", 3723000 -> "1:02:03"
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000)
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = String(totalSeconds % 60).padStart(2, "0")
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}`
+    : `${minutes}:${seconds}`
+}
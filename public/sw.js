@@ -0,0 +1,221 @@
+// Purple Hunter service worker: keeps the app usable offline.
+//   - App shell: pages are network-first with a cached fallback; Next's hashed
+//     static assets are cache-first since their URLs change with every build
+//   - /api/puzzle: network-first; offline, answers from the cache by date, flagged
+//     with the X-Puzzle-Offline header. Today's puzzle falls back to the newest one
+//     saved ("fallback"), whose date is in the response
+//   - Picture-puzzle images from imageMap: cached as soon as their puzzle is, and
+//     only those - other third-party images are never stored
+//   - Push: shows the daily puzzle and reminder notifications
+
+// Bump to drop every cache from older versions on activate
+const VERSION = "v2"
+const SHELL_CACHE = `purple-hunter-shell-${VERSION}`
+const PUZZLE_CACHE = `purple-hunter-puzzles-${VERSION}`
+const IMAGE_CACHE = `purple-hunter-images-${VERSION}`
+
+const SHELL_URLS = [
+  "/",
+  "/stats",
+  "/manifest.json",
+  "/icon.svg",
+  "/icon-192x192.png",
+  "/icon-512x512.png",
+  "/apple-icon.png",
+]
+
+// Oldest images are dropped past this many (a picture puzzle has 16)
+const MAX_CACHED_IMAGES = 160
+
+// Every puzzle is saved under its date, however it was asked for
+const puzzleKey = date => `/api/puzzle?date=${date}`
+
+// Today in ET, where NYT publishes (same as lib/puzzle-dates)
+function getTodayET() {
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: "America/New_York",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(new Date())
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then(cache => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  )
+})
+
+self.addEventListener("activate", (event) => {
+  const current = [SHELL_CACHE, PUZZLE_CACHE, IMAGE_CACHE]
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys.filter(key => key.startsWith("purple-hunter-") && !current.includes(key))
+          .map(key => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  )
+})
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event
+  if (request.method !== "GET") return
+
+  const url = new URL(request.url)
+
+  if (url.origin === self.location.origin && url.pathname === "/api/puzzle") {
+    event.respondWith(handlePuzzleRequest(request, url))
+  } else if (request.destination === "image" && url.origin !== self.location.origin) {
+    event.respondWith(cachedImage(request))
+  } else if (url.origin !== self.location.origin || url.pathname.startsWith("/api/")) {
+    // Check, hint and third-party requests need the network
+    return
+  } else if (url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(cacheFirst(request, SHELL_CACHE))
+  } else if (request.mode === "navigate" || SHELL_URLS.includes(url.pathname)) {
+    event.respondWith(networkFirst(request, SHELL_CACHE))
+  }
+})
+
+async function cacheFirst(request, cacheName) {
+  const cache = await caches.open(cacheName)
+  const cached = await cache.match(request)
+  if (cached) return cached
+
+  const response = await fetch(request)
+  if (response.ok) {
+    cache.put(request, response.clone())
+  }
+  return response
+}
+
+// Only puzzle images are in this cache (see cachePuzzleImages); anything else goes to the network
+async function cachedImage(request) {
+  const cache = await caches.open(IMAGE_CACHE)
+  return await cache.match(request) || fetch(request)
+}
+
+async function networkFirst(request, cacheName) {
+  const cache = await caches.open(cacheName)
+  try {
+    const response = await fetch(request)
+    if (response.ok) {
+      cache.put(request, response.clone())
+    }
+    return response
+  } catch (error) {
+    const cached = await cache.match(request, { ignoreSearch: true })
+      || await cache.match("/")
+    if (cached) return cached
+    throw error
+  }
+}
+
+async function handlePuzzleRequest(request, url) {
+  const cache = await caches.open(PUZZLE_CACHE)
+  const isToday = !url.searchParams.has("date") && !url.searchParams.has("id")
+
+  let response
+  try {
+    response = await fetch(request)
+  } catch {
+    // Today's own copy first; failing that, the newest puzzle saved, marked as a fallback
+    const exact = await cache.match(isToday ? puzzleKey(getTodayET()) : request)
+    const fallback = !exact && isToday ? await newestPuzzle(cache) : undefined
+    const cached = exact || fallback
+
+    if (cached) {
+      const headers = new Headers(cached.headers)
+      headers.set("X-Puzzle-Offline", fallback ? "fallback" : "1")
+      return new Response(await cached.blob(), { status: 200, headers })
+    }
+
+    return Response.json(
+      {
+        error: "Offline",
+        message: isToday
+          ? "You're offline and today's puzzle isn't saved yet. Use Edit to enter words manually."
+          : "You're offline and that puzzle isn't saved on this device.",
+      },
+      { status: 503 }
+    )
+  }
+
+  if (response.ok) {
+    try {
+      const puzzle = await response.clone().json()
+      await cache.put(puzzleKey(puzzle.date), response.clone())
+      // Today's request has no date in it, so only the dated copy is kept
+      if (!isToday) await cache.put(request, response.clone())
+      cachePuzzleImages(puzzle)
+    } catch {
+      // Not saved for offline use; the response itself is still fine
+    }
+  }
+  return response
+}
+
+// The saved puzzle with the latest date (dated keys sort as strings)
+async function newestPuzzle(cache) {
+  const dates = (await cache.keys())
+    .map(key => new URL(key.url).searchParams.get("date"))
+    .filter(Boolean)
+    .sort()
+  return dates.length > 0 ? cache.match(puzzleKey(dates[dates.length - 1])) : undefined
+}
+
+// Fetch a picture puzzle's images up front so the board works offline straight away
+async function cachePuzzleImages(puzzle) {
+  try {
+    const urls = Object.values(puzzle.imageMap || {})
+    if (urls.length === 0) return
+
+    const cache = await caches.open(IMAGE_CACHE)
+    await Promise.all(urls.map(async (imageUrl) => {
+      if (await cache.match(imageUrl)) return
+      // Cross-origin images come back opaque (status 0) - still worth keeping
+      const image = await fetch(imageUrl, { mode: "no-cors" })
+      await cache.put(imageUrl, image)
+    }))
+
+    // Keys come back oldest first
+    const keys = await cache.keys()
+    await Promise.all(keys.slice(0, Math.max(0, keys.length - MAX_CACHED_IMAGES)).map(key => cache.delete(key)))
+  } catch {
+    // Offline or out of space; the tiles load their images from the network instead
+  }
+}
+
+// Daily puzzle and reminder notifications (see lib/push)
+self.addEventListener("push", (event) => {
+  const message = event.data ? event.data.json() : {}
+  event.waitUntil(
+    self.registration.showNotification(message.title || "Purple Hunter", {
+      body: message.body,
+      tag: message.tag,
+      icon: "/icon-192x192.png",
+      badge: "/icon-192x192.png",
+      data: { url: message.url || "/" },
+    })
+  )
+})
+
+// Focus an open window if there is one, otherwise open the app
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close()
+  const url = new URL(event.notification.data?.url || "/", self.location.origin).href
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((windows) => {
+      const existing = windows.find(client => client.url.startsWith(self.location.origin))
+      if (existing) {
+        existing.navigate(url)
+        return existing.focus()
+      }
+      return self.clients.openWindow(url)
+    })
+  )
+})